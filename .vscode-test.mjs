@@ -2,4 +2,9 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// The integration tests write their files into this folder and delete them again.
+	workspaceFolder: 'test-workspace',
+	mocha: {
+		timeout: 20000,
+	},
 });
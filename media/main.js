@@ -3,15 +3,208 @@
     const vscode = acquireVsCodeApi();
     const diffInput = document.getElementById('diffInput');
     const createDiffViewButton = document.getElementById('createDiffViewButton');
+    const reviewHunksButton = document.getElementById('reviewHunksButton');
+    const reviewInlineButton = document.getElementById('reviewInlineButton');
     const applyToFileButton = document.getElementById('applyToFileButton'); // Новая кнопка
+    const applyAndCommitButton = document.getElementById('applyAndCommitButton');
     const errorMessageDiv = document.getElementById('error-message');
+    const repairReportDiv = document.getElementById('repair-report');
+    const validationReportDiv = document.getElementById('validation-report');
+    const loadPatchButton = document.getElementById('loadPatchButton');
+    const parseStatusDiv = document.getElementById('parse-status');
+    const fileListDiv = document.getElementById('file-list');
+    const inboxDiv = document.getElementById('inbox');
+    const inboxListDiv = document.getElementById('inbox-list');
+
+    const PARSE_DELAY_MS = 300;
+    const OPERATION_BADGES = { create: 'NEW', delete: 'DELETED', rename: 'RENAMED', copy: 'COPIED' };
 
     let lastKnownDiffText = ''; // Хранить последний текст для applyToFileButton
+    let parseTimer;
+    let parseRequestId = 0; // Ответы на устаревшие запросы разбора игнорируются
+
+    // Текст восстанавливается, когда панель показывается снова
+    const previousState = vscode.getState();
+    if (previousState && previousState.diffText) {
+        diffInput.value = previousState.diffText;
+        lastKnownDiffText = previousState.diffText;
+        requestParse();
+    }
+
+    function requestParse() {
+        clearTimeout(parseTimer);
+        vscode.setState({ diffText: diffInput.value });
+        parseRequestId++;
+        vscode.postMessage({ type: 'parseDiff', value: diffInput.value, requestId: parseRequestId });
+    }
+
+    function setDiffText(text) {
+        diffInput.value = text;
+        lastKnownDiffText = text;
+        errorMessageDiv.textContent = '';
+        repairReportDiv.textContent = '';
+        validationReportDiv.replaceChildren();
+        requestParse();
+    }
 
     diffInput.addEventListener('input', () => {
         lastKnownDiffText = diffInput.value;
         errorMessageDiv.textContent = ''; // Очистка ошибок при вводе
+        repairReportDiv.textContent = '';
+        validationReportDiv.replaceChildren();
+        // Разбор во время ввода, с задержкой, чтобы не разбирать на каждое нажатие клавиши
+        clearTimeout(parseTimer);
+        vscode.setState({ diffText: diffInput.value });
+        parseTimer = setTimeout(requestParse, PARSE_DELAY_MS);
+    });
+
+    loadPatchButton.addEventListener('click', () => {
+        vscode.postMessage({ type: 'loadPatchFile' });
+    });
+
+    // Перетаскивание .patch/.diff файлов: файлы с диска читаются здесь, файлы из Explorer — расширением
+    document.body.addEventListener('dragover', event => {
+        event.preventDefault();
     });
+    document.body.addEventListener('drop', event => {
+        event.preventDefault();
+        const file = event.dataTransfer.files[0];
+        if (file) {
+            const reader = new FileReader();
+            reader.onload = () => setDiffText(String(reader.result));
+            reader.readAsText(file);
+            return;
+        }
+        const uri = (event.dataTransfer.getData('text/uri-list') || '').split(/\r?\n/).find(line => line && !line.startsWith('#'));
+        if (uri) {
+            vscode.postMessage({ type: 'loadPatchFile', uri });
+        }
+    });
+
+    // Очередь патчей из папки-«входящих»; расширение присылает её при каждом изменении
+    vscode.postMessage({ type: 'refreshInbox' });
+
+    function renderInbox(message) {
+        inboxDiv.hidden = !message.enabled;
+        inboxListDiv.replaceChildren();
+        if (message.patches.length === 0) {
+            inboxListDiv.className = 'notice';
+            inboxListDiv.textContent = `No patches in ${message.folder}.`;
+            return;
+        }
+        inboxListDiv.className = '';
+        for (const patch of message.patches) {
+            const entry = document.createElement('div');
+            entry.className = 'file-entry';
+
+            const name = document.createElement('div');
+            name.className = 'file-path';
+            name.textContent = patch.name;
+            entry.appendChild(name);
+
+            const details = document.createElement('div');
+            details.className = 'file-details';
+            if (patch.error) {
+                const error = document.createElement('span');
+                error.className = 'error';
+                error.textContent = patch.error;
+                details.appendChild(error);
+            } else {
+                // Краткая сводка: число файлов и строк, список файлов во всплывающей подсказке
+                const additions = patch.files.reduce((total, file) => total + file.additions, 0);
+                const deletions = patch.files.reduce((total, file) => total + file.deletions, 0);
+                const summary = document.createElement('span');
+                summary.textContent = `${patch.files.length} file(s) `;
+                summary.title = patch.files.map(file => file.newPath ? `${file.path} → ${file.newPath}` : file.path).join('\n');
+                const added = document.createElement('span');
+                added.className = 'additions';
+                added.textContent = `+${additions}`;
+                const deleted = document.createElement('span');
+                deleted.className = 'deletions';
+                deleted.textContent = ` −${deletions}`;
+                summary.append(added, deleted);
+                details.appendChild(summary);
+            }
+
+            const actions = [['Load', 'loadPatchFile'], ['Apply', 'applyInboxPatch'], ['Reject', 'rejectInboxPatch']];
+            if (!patch.error) {
+                actions.unshift(['Preview', 'previewInboxPatch']);
+            }
+            for (const [label, type] of actions) {
+                const link = document.createElement('a');
+                link.href = '#';
+                link.className = 'file-action';
+                link.textContent = label;
+                link.addEventListener('click', event => {
+                    event.preventDefault();
+                    vscode.postMessage({ type, uri: patch.uri });
+                });
+                details.appendChild(link);
+            }
+            entry.appendChild(details);
+            inboxListDiv.appendChild(entry);
+        }
+    }
+
+    function renderFileList(files) {
+        fileListDiv.replaceChildren();
+        for (const file of files) {
+            const entry = document.createElement('div');
+            entry.className = 'file-entry';
+
+            const header = document.createElement('div');
+            const badgeText = file.binary ? 'BINARY' : OPERATION_BADGES[file.operation];
+            if (badgeText) {
+                const badge = document.createElement('span');
+                badge.className = `badge badge-${file.binary ? 'binary' : file.operation}`;
+                badge.textContent = badgeText;
+                header.appendChild(badge);
+            }
+            const path = document.createElement('span');
+            path.className = 'file-path';
+            path.textContent = file.newPath ? `${file.path} → ${file.newPath}` : file.path;
+            path.title = file.target || '';
+            header.appendChild(path);
+            entry.appendChild(header);
+
+            const details = document.createElement('div');
+            details.className = 'file-details';
+            const counts = document.createElement('span');
+            const additions = document.createElement('span');
+            additions.className = 'additions';
+            additions.textContent = `+${file.additions}`;
+            const deletions = document.createElement('span');
+            deletions.className = 'deletions';
+            deletions.textContent = file.wholeFile ? ' (whole file)' : ` −${file.deletions}`;
+            counts.append(additions, deletions);
+            details.appendChild(counts);
+
+            // Найден ли целевой файл в рабочей области без вопросов
+            const resolution = document.createElement('span');
+            resolution.className = `resolution resolution-${file.resolution}`;
+            resolution.textContent = file.resolution === 'resolved'
+                ? (file.operation === 'create' ? ` → ${file.target}` : ' ✓ found')
+                : file.resolution === 'ambiguous' ? ' ⚠ several matches' : ' ✗ not found';
+            details.appendChild(resolution);
+
+            // Просмотр и применение одного файла
+            if (!file.binary) {
+                for (const [label, type] of [['Preview', 'previewFile'], ['Apply', 'applyFile']]) {
+                    const link = document.createElement('a');
+                    link.href = '#';
+                    link.className = 'file-action';
+                    link.textContent = label;
+                    link.addEventListener('click', event => {
+                        event.preventDefault();
+                        vscode.postMessage({ type, value: diffInput.value, index: file.index });
+                    });
+                    details.appendChild(link);
+                }
+            }
+            entry.appendChild(details);
+            fileListDiv.appendChild(entry);
+        }
+    }
 
     createDiffViewButton.addEventListener('click', () => {
         const diffText = diffInput.value;
@@ -27,6 +220,32 @@
         });
     });
 
+    reviewHunksButton.addEventListener('click', () => {
+        const diffText = diffInput.value.trim() ? diffInput.value : lastKnownDiffText;
+        errorMessageDiv.textContent = '';
+        if (!diffText.trim()) {
+            vscode.postMessage({ type: 'showError', message: 'Diff input is empty.' });
+            return;
+        }
+        vscode.postMessage({
+            type: 'reviewHunks', // Список хунков с выбором в дереве "Review Hunks"
+            value: diffText
+        });
+    });
+
+    reviewInlineButton.addEventListener('click', () => {
+        const diffText = diffInput.value.trim() ? diffInput.value : lastKnownDiffText;
+        errorMessageDiv.textContent = '';
+        if (!diffText.trim()) {
+            vscode.postMessage({ type: 'showError', message: 'Diff input is empty.' });
+            return;
+        }
+        vscode.postMessage({
+            type: 'reviewInline', // Изменения прямо в редакторе с Accept/Reject над каждым хунком
+            value: diffText
+        });
+    });
+
     applyToFileButton.addEventListener('click', () => {
         // Используем текст из поля ввода, если он есть, иначе последний известный
         const diffText = diffInput.value.trim() ? diffInput.value : lastKnownDiffText;
@@ -41,12 +260,91 @@
         });
     });
 
+    applyAndCommitButton.addEventListener('click', () => {
+        const diffText = diffInput.value.trim() ? diffInput.value : lastKnownDiffText;
+        errorMessageDiv.textContent = '';
+        if (!diffText.trim()) {
+            vscode.postMessage({ type: 'showError', message: 'Diff input is empty.' });
+            return;
+        }
+        vscode.postMessage({
+            type: 'applyAndCommit', // Применить и закоммитить затронутые файлы
+            value: diffText
+        });
+    });
+
     window.addEventListener('message', event => {
         const message = event.data;
         switch (message.type) {
             case 'parseError':
                 errorMessageDiv.textContent = message.message;
                 break;
+            case 'setDiffText':
+                // Diff, созданный командами расширения или загруженный из файла, помещается в поле ввода
+                setDiffText(message.value);
+                break;
+            case 'patchSummary': {
+                // Результат разбора во время ввода: список файлов со статистикой
+                if (message.requestId !== parseRequestId) {
+                    break;
+                }
+                renderFileList(message.files);
+                parseStatusDiv.className = message.error ? 'error' : 'notice';
+                if (message.error) {
+                    parseStatusDiv.textContent = message.error;
+                } else if (message.files.length > 0) {
+                    const repairs = message.repairs && message.repairs.length > 0 ? `, ${message.repairs.length} repair(s)` : '';
+                    parseStatusDiv.textContent = `${message.format}: ${message.files.length} file(s)${repairs}`;
+                } else {
+                    parseStatusDiv.textContent = '';
+                }
+                break;
+            }
+            case 'repairReport': {
+                // Список исправлений, сделанных при разборе "неаккуратного" diff
+                const list = document.createElement('ul');
+                for (const repair of message.repairs) {
+                    const item = document.createElement('li');
+                    item.textContent = repair;
+                    list.appendChild(item);
+                }
+                repairReportDiv.replaceChildren(list);
+                break;
+            }
+            case 'validationReport': {
+                // Результаты проверки после применения патча; при ошибке предлагается откат
+                validationReportDiv.replaceChildren();
+                if (!message.report) {
+                    break;
+                }
+                const heading = document.createElement('div');
+                heading.className = message.report.passed ? '' : 'error';
+                heading.textContent = message.report.passed ? 'Validation passed.' : 'Validation failed.';
+                const list = document.createElement('ul');
+                for (const step of message.report.steps) {
+                    const item = document.createElement('li');
+                    item.textContent = `${step.passed ? '✓' : '✗'} ${step.name}`;
+                    if (step.details) {
+                        const details = document.createElement('pre');
+                        details.textContent = step.details;
+                        item.appendChild(details);
+                    }
+                    list.appendChild(item);
+                }
+                validationReportDiv.append(heading, list);
+                if (!message.report.passed) {
+                    const rollbackButton = document.createElement('button');
+                    rollbackButton.textContent = 'Roll Back Patch';
+                    rollbackButton.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'rollbackPatch' });
+                    });
+                    validationReportDiv.appendChild(rollbackButton);
+                }
+                break;
+            }
+            case 'inboxQueue':
+                renderInbox(message);
+                break;
             // Можно добавить другие обработчики сообщений от расширения
         }
     });
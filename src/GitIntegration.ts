@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitApi, GitRepository, getGitApi } from './gitExtension';
+import { PlannedFileChange } from './PatchTransaction';
+
+const execFileAsync = promisify(execFile);
+
+type UncommittedChangesPolicy = 'ignore' | 'refuse' | 'stash';
+
+/** Uncommitted changes that {@link GitIntegration.prepareTargets} stashed in one repository. */
+export interface StashedChanges {
+    repository: GitRepository;
+    gitPath: string;
+    /** Commit of the stash entry, which stays the same when other entries are pushed or popped. */
+    stash: string;
+}
+
+/** A branch that {@link GitIntegration.startBranch} created and checked out in one repository. */
+export interface StartedBranch {
+    repository: GitRepository;
+    name: string;
+    /** The branch, or the commit for a detached HEAD, that was checked out before. */
+    previous: string;
+}
+
+/**
+ * What the git steps of one apply changed. Every apply keeps its own, so that
+ * applies running at the same time never undo each other's steps.
+ */
+export interface GitApplyState {
+    stashes: StashedChanges[];
+    branches: StartedBranch[];
+}
+
+/**
+ * Source control steps around an apply: checking or stashing uncommitted
+ * changes of the target files before, switching to a new branch, and staging
+ * or committing the touched files after. All of it goes through the built-in
+ * Git extension and is skipped for files that are not in a git repository.
+ */
+export class GitIntegration {
+    /**
+     * Checks the files a patch is about to change for uncommitted changes, as set
+     * by `vscodepatchapply.uncommittedChanges`. Returns the reason when the patch
+     * must not be applied, and the changes it stashed, which {@link endApply}
+     * keeps or puts back. Changes may have been stashed even when it refuses.
+     */
+    public async prepareTargets(uris: vscode.Uri[], label: string): Promise<{ reason?: string; stashes: StashedChanges[] }> {
+        const stashes: StashedChanges[] = [];
+        const policy = this.configuration().get<UncommittedChangesPolicy>('uncommittedChanges', 'ignore');
+        if (policy === 'ignore') {
+            return { stashes };
+        }
+        const git = await getGitApi();
+        if (!git) {
+            return { stashes };
+        }
+
+        for (const [repository, repositoryUris] of this.groupByRepository(git, uris)) {
+            await repository.status();
+            const changed = new Set([...repository.state.workingTreeChanges, ...repository.state.indexChanges].map(change => change.uri.toString()));
+            const dirtyUris = repositoryUris.filter(uri => changed.has(uri.toString()));
+            if (dirtyUris.length === 0) {
+                continue;
+            }
+            const dirtyPaths = dirtyUris.map(uri => vscode.workspace.asRelativePath(uri));
+
+            if (policy === 'refuse') {
+                const reason = `Not applied because these files have uncommitted changes: ${dirtyPaths.join(', ')}. Commit or stash them first.`;
+                vscode.window.showErrorMessage(reason);
+                return { reason, stashes };
+            }
+
+            try {
+                const cwd = repository.rootUri.fsPath;
+                const stashBefore = await this.latestStash(git.git.path, cwd);
+                await execFileAsync(git.git.path, [
+                    'stash', 'push', '--include-untracked', '-m', `Before applying patch: ${label}`,
+                    '--', ...dirtyUris.map(uri => this.repositoryPath(repository, uri)),
+                ], { cwd });
+                const stash = await this.latestStash(git.git.path, cwd);
+                if (stash && stash !== stashBefore) {
+                    stashes.push({ repository, gitPath: git.git.path, stash });
+                }
+                await repository.status();
+                vscode.window.showInformationMessage(`Stashed uncommitted changes of ${dirtyPaths.join(', ')} before applying the patch.`);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                const reason = `Could not stash the uncommitted changes of ${dirtyPaths.join(', ')}: ${errorMessage}`;
+                vscode.window.showErrorMessage(reason);
+                return { reason, stashes };
+            }
+        }
+        return { stashes };
+    }
+
+    /**
+     * Ends an apply. The stashes and branches in `state` are kept when the patch
+     * was written. When it was not, the branches are switched back and deleted
+     * and the stashed changes are put back, so that a refused, cancelled or
+     * failed patch never leaves work stashed or a branch checked out.
+     */
+    public async endApply(state: GitApplyState, written: boolean) {
+        if (written) {
+            return;
+        }
+        for (const { repository, name, previous } of state.branches) {
+            const repositoryName = vscode.workspace.asRelativePath(repository.rootUri);
+            try {
+                await repository.checkout(previous);
+                await repository.deleteBranch(name, true);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Could not switch ${repositoryName} back to '${previous}' and delete the branch '${name}': ${errorMessage}`);
+            }
+        }
+        for (const { repository, gitPath, stash } of state.stashes) {
+            const repositoryName = vscode.workspace.asRelativePath(repository.rootUri);
+            try {
+                const cwd = repository.rootUri.fsPath;
+                // Other stashes may have been pushed since: pop the entry by its commit.
+                const { stdout } = await execFileAsync(gitPath, ['stash', 'list', '--format=%H'], { cwd });
+                const index = stdout.split('\n').indexOf(stash);
+                if (index < 0) {
+                    throw new Error(`The stash ${stash.substring(0, 7)} is gone.`);
+                }
+                await execFileAsync(gitPath, ['stash', 'pop', `stash@{${index}}`], { cwd });
+                await repository.status();
+                vscode.window.showInformationMessage(`Restored the stashed changes in ${repositoryName}, as the patch was not applied.`);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Could not restore the stashed changes in ${repositoryName}: ${errorMessage} Run "git stash pop" to restore them.`);
+            }
+        }
+    }
+
+    /**
+     * With `vscodepatchapply.applyOnNewBranch`, creates and checks out a new branch
+     * in every repository the patch touches, so that the patch can be thrown away
+     * by switching back. Returns the reason when the patch must not be applied,
+     * and the branches created, which {@link endApply} keeps or deletes.
+     */
+    public async startBranch(uris: vscode.Uri[], nonInteractive: boolean): Promise<{ reason?: string; branches: StartedBranch[] }> {
+        const branches: StartedBranch[] = [];
+        if (!this.configuration().get<boolean>('applyOnNewBranch', false)) {
+            return { branches };
+        }
+        const git = await getGitApi();
+        const repositories = git ? [...this.groupByRepository(git, uris).keys()] : [];
+        if (repositories.length === 0) {
+            return { branches };
+        }
+
+        const defaultName = `patch/${new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15)}`;
+        const branchName = nonInteractive ? defaultName : await vscode.window.showInputBox({
+            prompt: 'Name of the branch to apply the patch on',
+            value: defaultName,
+            validateInput: value => /^(?!\/|.*(?:\.\.|\/\/|@\{|\.lock$|\/$))[^\s~^:?*[\\]+$/.test(value) ? undefined : 'Not a valid branch name.',
+        });
+        if (!branchName) {
+            return { reason: 'No branch name was given.', branches };
+        }
+
+        for (const repository of repositories) {
+            try {
+                await repository.status();
+                const previous = repository.state.HEAD?.name ?? repository.state.HEAD?.commit;
+                if (!previous) {
+                    throw new Error('The repository has no commit to branch from.');
+                }
+                await repository.createBranch(branchName, true);
+                branches.push({ repository, name: branchName, previous });
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                const reason = `Could not create branch '${branchName}' in ${vscode.workspace.asRelativePath(repository.rootUri)}: ${errorMessage}`;
+                vscode.window.showErrorMessage(reason);
+                return { reason, branches };
+            }
+        }
+        vscode.window.setStatusBarMessage(`Applying the patch on the new branch '${branchName}'.`, 5000);
+        return { branches };
+    }
+
+    /**
+     * Stages the applied files when `vscodepatchapply.stageAppliedFiles` is set or
+     * a commit message is given, and commits them with that message. Files open
+     * in an editor are saved first, as git only sees what is on disk. `.rej` files
+     * are not part of the patch and are left unstaged. Nothing is committed when
+     * hunks were left as conflicts or other changes are staged.
+     */
+    public async finish(allChanges: PlannedFileChange[], commitMessage?: string) {
+        const stage = commitMessage !== undefined || this.configuration().get<boolean>('stageAppliedFiles', false);
+        if (!stage) {
+            return;
+        }
+        const changes = allChanges.filter(change => !change.rejectFile);
+        const git = await getGitApi();
+        const uris = changes.map(change => change.uri);
+        const repositories = git ? this.groupByRepository(git, uris) : new Map<GitRepository, vscode.Uri[]>();
+        if (repositories.size === 0) {
+            vscode.window.showWarningMessage('The patched files are not in a git repository, or the Git extension is disabled. Nothing was staged.');
+            return;
+        }
+
+        for (const change of changes) {
+            if (change.document?.isDirty) {
+                await change.document.save();
+            }
+        }
+
+        const partialFiles = changes.filter(change => change.hunkOutcome).map(change => change.displayFileName);
+        for (const [repository, repositoryUris] of repositories) {
+            const repositoryName = vscode.workspace.asRelativePath(repository.rootUri);
+            try {
+                await repository.status();
+                const touched = new Set(repositoryUris.map(uri => uri.toString()));
+                const otherStaged = repository.state.indexChanges.filter(change => !touched.has(change.uri.toString()));
+                await repository.add(repositoryUris.map(uri => uri.fsPath));
+
+                if (commitMessage === undefined) {
+                    continue;
+                }
+                if (partialFiles.length > 0) {
+                    vscode.window.showWarningMessage(`The patch was staged but not committed, as some hunks did not apply: ${partialFiles.join(', ')}. Resolve them and commit.`);
+                } else if (otherStaged.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `The patch was staged but not committed, as ${repositoryName} has other staged changes: ` +
+                        `${otherStaged.map(change => vscode.workspace.asRelativePath(change.uri)).join(', ')}.`
+                    );
+                } else {
+                    await repository.commit(commitMessage);
+                    vscode.window.showInformationMessage(`Committed the patch in ${repositoryName}: ${commitMessage.split('\n')[0]}`);
+                }
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Could not ${commitMessage === undefined ? 'stage' : 'commit'} the patched files in ${repositoryName}: ${errorMessage}`);
+            }
+        }
+    }
+
+    /** The commit of the newest stash entry, or undefined if there is none. */
+    private async latestStash(gitPath: string, cwd: string): Promise<string | undefined> {
+        try {
+            return (await execFileAsync(gitPath, ['rev-parse', '--verify', '--quiet', 'refs/stash'], { cwd })).stdout.trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private groupByRepository(git: GitApi, uris: vscode.Uri[]): Map<GitRepository, vscode.Uri[]> {
+        const groups = new Map<GitRepository, vscode.Uri[]>();
+        for (const uri of uris) {
+            const repository = uri.scheme === 'file' ? git.getRepository(uri) : null;
+            if (repository) {
+                groups.set(repository, [...(groups.get(repository) ?? []), uri]);
+            }
+        }
+        return groups;
+    }
+
+    private repositoryPath(repository: GitRepository, uri: vscode.Uri): string {
+        return uri.path.substring(repository.rootUri.path.replace(/\/$/, '').length + 1);
+    }
+
+    private configuration() {
+        return vscode.workspace.getConfiguration('vscodepatchapply');
+    }
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as Diff from 'diff';
+import { formatHunkHeader } from './hunkApply';
+import { PatchTarget } from './PatchEngine';
+
+/** A file of the patch under review, with the accept/reject state of each of its hunks. */
+export interface ReviewFile {
+    patch: Diff.StructuredPatch;
+    target: PatchTarget;
+    accepted: boolean[];
+}
+
+type ReviewNode =
+    | { kind: 'file'; file: ReviewFile }
+    | { kind: 'hunk'; file: ReviewFile; hunkIndex: number };
+
+/**
+ * Tree view listing every hunk of a patch with a checkbox, so that only the
+ * accepted hunks are applied.
+ */
+export class HunkReviewTreeProvider implements vscode.TreeDataProvider<ReviewNode> {
+    public static readonly viewType = 'vscodepatchapply.hunkReview';
+
+    private _files: ReviewFile[] = [];
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<ReviewNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    public get files(): readonly ReviewFile[] {
+        return this._files;
+    }
+
+    public setReview(files: ReviewFile[]) {
+        this._files = files;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public clear() {
+        this.setReview([]);
+    }
+
+    public setAllAccepted(accepted: boolean) {
+        for (const file of this._files) {
+            file.accepted = file.accepted.map(() => accepted);
+        }
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public handleCheckboxChange(event: vscode.TreeCheckboxChangeEvent<ReviewNode>) {
+        for (const [node, state] of event.items) {
+            const accepted = state === vscode.TreeItemCheckboxState.Checked;
+            if (node.kind === 'file') {
+                node.file.accepted = node.file.accepted.map(() => accepted);
+            } else {
+                node.file.accepted[node.hunkIndex] = accepted;
+            }
+        }
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getChildren(element?: ReviewNode): ReviewNode[] {
+        if (!element) {
+            return this._files.map(file => ({ kind: 'file', file }));
+        }
+        if (element.kind === 'file') {
+            return element.file.patch.hunks.map((_hunk, hunkIndex) => ({ kind: 'hunk', file: element.file, hunkIndex }));
+        }
+        return [];
+    }
+
+    public getTreeItem(element: ReviewNode): vscode.TreeItem {
+        const { file } = element;
+        if (element.kind === 'file') {
+            const acceptedCount = file.accepted.filter(Boolean).length;
+            const item = new vscode.TreeItem(vscode.workspace.asRelativePath(file.target.uri), vscode.TreeItemCollapsibleState.Expanded);
+            item.resourceUri = file.target.uri;
+            item.description = `${acceptedCount}/${file.accepted.length} hunk(s) accepted`;
+            if (file.target.isNewFile) {
+                item.description += ' · new file';
+            } else if (file.target.isDeletedFile) {
+                item.description += ' · deleted';
+            }
+            item.checkboxState = acceptedCount > 0 ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+            return item;
+        }
+
+        const hunk = file.patch.hunks[element.hunkIndex];
+        const added = hunk.lines.filter(line => line.startsWith('+')).length;
+        const removed = hunk.lines.filter(line => line.startsWith('-')).length;
+        const firstChange = hunk.lines.find(line => line.startsWith('+') || line.startsWith('-'));
+
+        const item = new vscode.TreeItem(formatHunkHeader(hunk), vscode.TreeItemCollapsibleState.None);
+        item.description = `+${added} −${removed}` + (firstChange ? `  ${firstChange.substring(1).trim()}` : '');
+        item.tooltip = new vscode.MarkdownString().appendCodeblock(hunk.lines.join('\n'), 'diff');
+        item.checkboxState = file.accepted[element.hunkIndex] ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        if (!file.target.isNewFile) {
+            const line = Math.max(hunk.oldStart - 1, 0);
+            item.command = {
+                command: 'vscode.open',
+                title: 'Go to Hunk',
+                arguments: [file.target.uri, { selection: new vscode.Range(line, 0, line, 0) } as vscode.TextDocumentShowOptions],
+            };
+        }
+        return item;
+    }
+
+    public dispose() {
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -1,25 +1,77 @@
 import * as vscode from 'vscode';
 import * as Diff from 'diff';
-import { TextDecoder, TextEncoder } from 'util';
-
-type ParsedPatchType = Diff.StructuredPatch;
-
-function normalizeLineEndings(str: string): string {
-    if (!str) return '';
-    return str.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+import { commitMessageFromPatch, FileOperation, hasFileOperation, isBinaryPatch, ParsedFilePatch, patchHasChanges, patchOperation, reverseFilePatch } from './gitPatch';
+import { applyHunksIndividually, formatHunkHeader, selectHunks } from './hunkApply';
+import { GitApplyState, GitIntegration } from './GitIntegration';
+import { HunkReviewTreeProvider, ReviewFile } from './HunkReviewTreeProvider';
+import { decodeTextFile, normalizeLineEndings } from './fileEncoding';
+import { cleanDiffInput, fullFileToHunks, unifiedDiffFormat } from './inputFormats';
+import { PatchEngine, PatchFileResult, PatchPlan, PatchRejection, PatchTarget, workspaceFileSystem } from './PatchEngine';
+import { PatchHistory, PatchHistoryEntry } from './PatchHistory';
+import { PatchInbox } from './PatchInbox';
+import { PatchPreviewContentProvider } from './PatchPreviewContentProvider';
+import { PatchSafetyPolicy } from './PatchSafetyPolicy';
+import { countChangedLines, summarizePatches } from './patchSummary';
+import { PatchValidator, ValidationReport } from './PatchValidator';
+import { PendingChangesManager } from './PendingChangesManager';
+import { TargetResolver } from './TargetResolver';
+import { PatchTransaction } from './PatchTransaction';
+import { WindowPatchPrompts } from './WindowPatchPrompts';
+
+type ParsedPatchType = ParsedFilePatch;
+
+/**
+ * Outcome of applying a diff, returned by the apply commands. Patches are
+ * applied as a whole, so when any file fails, `applied` is empty and the files
+ * that would have been patched are listed as skipped.
+ */
+export interface PatchApplyResult {
+    applied: PatchFileResult[];
+    skipped: PatchFileResult[];
+    failed: PatchFileResult[];
+    /** Set when the diff could not be applied at all, e.g. because it did not parse. */
+    error?: string;
+    /** True if nothing was applied because the user cancelled a question about a file. */
+    cancelled?: boolean;
+    /** Results of the post-apply checks, when any are configured. */
+    validation?: ValidationReport;
 }
 
-interface FileQuickPickItem extends vscode.QuickPickItem {
-    action: 'select_this_uri' | 'choose_manually' | 'cancel_operation';
-    uri?: vscode.Uri;
+interface ApplyOptions {
+    /** Undo the diff instead of applying it. */
+    reverse?: boolean;
+    /** Commit the touched files with this message after applying. */
+    commitMessage?: string;
+    /** Apply only the file at this position of the parsed diff. */
+    fileIndex?: number;
+    /**
+     * Open the patched files in editors afterwards. Only set for applies started
+     * in the panel, so that headless applies do not keep opening tabs.
+     */
+    openEditors?: boolean;
 }
 
 export class PatchApplyViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'vscodepatchapply.patchView';
     private _view?: vscode.WebviewView;
     private _currentRawDiffText: string = '';
-
-    constructor(private readonly _extensionUri: vscode.Uri) {}
+    private _lastTransaction?: PatchTransaction;
+    private readonly _prompts = new WindowPatchPrompts(repairs => this.reportRepairs(repairs));
+    private readonly _engine = new PatchEngine(workspaceFileSystem, this._prompts);
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _previewProvider: PatchPreviewContentProvider,
+        private readonly _hunkReview: HunkReviewTreeProvider,
+        private readonly _history: PatchHistory,
+        private readonly _pendingChanges: PendingChangesManager,
+        private readonly _git: GitIntegration,
+        private readonly _validator: PatchValidator,
+        private readonly _safetyPolicy: PatchSafetyPolicy,
+        private readonly _inbox: PatchInbox
+    ) {
+        _inbox.onDidChange(() => this.postInbox());
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -51,7 +103,57 @@ export class PatchApplyViewProvider implements vscode.WebviewViewProvider {
                         vscode.window.showErrorMessage('Diff text is empty. Paste a diff first.');
                         return;
                     }
-                    await this.applyAllPatchesToFiles(diffToApply);
+                    this._currentRawDiffText = diffToApply;
+                    await this.applyAllPatchesToFiles(diffToApply, { openEditors: true });
+                    break;
+                case 'applyAndCommit':
+                    await this.applyAndCommit(data.value || undefined, { openEditors: true });
+                    break;
+                case 'rollbackPatch':
+                    await this.revertLastAppliedPatch(false);
+                    break;
+                case 'reviewHunks':
+                    this._currentRawDiffText = data.value;
+                    if (!this._currentRawDiffText) {
+                        vscode.window.showErrorMessage('Diff text is empty.');
+                        return;
+                    }
+                    await this.startHunkReview(this._currentRawDiffText);
+                    break;
+                case 'reviewInline':
+                    this._currentRawDiffText = data.value;
+                    if (!this._currentRawDiffText) {
+                        vscode.window.showErrorMessage('Diff text is empty.');
+                        return;
+                    }
+                    await this.startInlineReview(this._currentRawDiffText);
+                    break;
+                case 'parseDiff':
+                    this._currentRawDiffText = data.value;
+                    await this.postPatchSummary(data.value, data.requestId);
+                    break;
+                case 'previewFile':
+                    this._currentRawDiffText = data.value;
+                    await this.processAndShowAllDiffs(data.value, data.index);
+                    break;
+                case 'applyFile':
+                    this._currentRawDiffText = data.value;
+                    await this.applyAllPatchesToFiles(data.value, { fileIndex: data.index, openEditors: true });
+                    break;
+                case 'loadPatchFile':
+                    await this.loadPatchFile(data.uri ? vscode.Uri.parse(data.uri) : undefined);
+                    break;
+                case 'refreshInbox':
+                    await this.postInbox();
+                    break;
+                case 'previewInboxPatch':
+                    await this.previewInboxPatch(vscode.Uri.parse(data.uri));
+                    break;
+                case 'applyInboxPatch':
+                    await this.applyInboxPatch(vscode.Uri.parse(data.uri));
+                    break;
+                case 'rejectInboxPatch':
+                    await this.rejectInboxPatch(vscode.Uri.parse(data.uri));
                     break;
                 case 'showError':
                     vscode.window.showErrorMessage(data.message);
@@ -60,78 +162,199 @@ export class PatchApplyViewProvider implements vscode.WebviewViewProvider {
         });
     }
 
-    private cleanDiffInput(rawDiffText: string): string {
-        let cleanDiffText = rawDiffText.trim();
-        if (cleanDiffText.startsWith('```diff')) {
-            cleanDiffText = cleanDiffText.substring('```diff'.length);
+    /** Puts a diff into the panel's text area, opening the panel if needed. */
+    public async loadDiffText(diffText: string) {
+        this._currentRawDiffText = diffText;
+        await vscode.commands.executeCommand(`${PatchApplyViewProvider.viewType}.focus`);
+        this._view?.webview.postMessage({ type: 'setDiffText', value: diffText });
+    }
+
+    /** Loads a `.diff` or `.patch` file into the panel, asking for one when no URI is given. */
+    public async loadPatchFile(patchFileUri?: vscode.Uri) {
+        const fileUri = patchFileUri ?? (await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Load Patch',
+            filters: { 'Patch files': ['diff', 'patch'], 'All files': ['*'] },
+        }))?.[0];
+        if (!fileUri) {
+            return;
         }
-        if (cleanDiffText.endsWith('```')) {
-            cleanDiffText = cleanDiffText.substring(0, cleanDiffText.length - '```'.length);
+        try {
+            await this.loadDiffText(decodeTextFile(await vscode.workspace.fs.readFile(fileUri)).text);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Could not read patch file '${vscode.workspace.asRelativePath(fileUri)}': ${errorMessage}`);
         }
-        return cleanDiffText.trim();
     }
 
-    private async processAndShowAllDiffs(rawDiffText: string) {
-        const cleanDiffText = this.cleanDiffInput(rawDiffText);
+    /**
+     * Parses the panel's text as it is typed and sends the list of files it
+     * changes back to the panel. Nothing is reported outside the panel, and
+     * answers to outdated requests are ignored by the panel by `requestId`.
+     */
+    private async postPatchSummary(rawDiffText: string, requestId: number) {
+        const post = (summary: object) => this._view?.webview.postMessage({ type: 'patchSummary', requestId, ...summary });
+        if (!cleanDiffInput(rawDiffText)) {
+            post({ files: [] });
+            return;
+        }
+        const { format, patches, repairs, error } = this._engine.parse(rawDiffText);
+        if (error) {
+            post({ files: [], error: `Error parsing ${format.label}: ${error}` });
+        } else if (!patches.some(patchHasChanges)) {
+            post({ files: [], error: `No changes found in the ${format.label}.` });
+        } else {
+            post({ format: format.label, files: await summarizePatches(patches, workspaceFileSystem), repairs });
+        }
+    }
 
-        if (!cleanDiffText) {
-            vscode.window.showInformationMessage('No diff content to process after cleaning markers.');
+    /**
+     * Sends the patches queued in the inbox to the panel, each with the files it
+     * changes, and shows their number on the view.
+     */
+    private async postInbox() {
+        if (!this._view) {
             return;
         }
+        const patches = await Promise.all(this._inbox.patches.map(async patch => {
+            const item = { uri: patch.uri.toString(), name: patch.name };
+            try {
+                const { format, patches: parsedPatches, error } = this._engine.parse(await this._inbox.read(patch.uri));
+                if (error || !parsedPatches.some(patchHasChanges)) {
+                    return { ...item, error: error ? `Error parsing ${format.label}: ${error}` : `No changes found in the ${format.label}.` };
+                }
+                return { ...item, files: await summarizePatches(parsedPatches, workspaceFileSystem) };
+            } catch (e) {
+                return { ...item, error: e instanceof Error ? e.message : String(e) };
+            }
+        }));
+        this._view.badge = patches.length > 0 ? { value: patches.length, tooltip: `${patches.length} patch(es) in the inbox` } : undefined;
+        this._view.webview.postMessage({ type: 'inboxQueue', enabled: this._inbox.enabled, folder: this._inbox.folder, patches });
+    }
 
-        let parsedPatches: ParsedPatchType[];
+    private async readInboxPatch(patchFileUri: vscode.Uri): Promise<string | undefined> {
         try {
-            parsedPatches = Diff.parsePatch(cleanDiffText);
-            if (!parsedPatches || parsedPatches.length === 0) {
-                vscode.window.showErrorMessage('Could not parse the diff or no changes found. Is it a valid unified diff?');
-                return;
-            }
-        } catch (error) {
-            console.error("Error parsing diff:", error);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            vscode.window.showErrorMessage(`Error parsing diff: ${errorMessage}`);
-            if (this._view) {
-                this._view.webview.postMessage({ type: 'parseError', message: `Error parsing diff: ${errorMessage}` });
+            return await this._inbox.read(patchFileUri);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Could not read patch file '${vscode.workspace.asRelativePath(patchFileUri)}': ${errorMessage}`);
+            return undefined;
+        }
+    }
+
+    public async previewInboxPatch(patchFileUri: vscode.Uri) {
+        const diffText = await this.readInboxPatch(patchFileUri);
+        if (diffText !== undefined) {
+            await this.previewDiff(diffText);
+        }
+    }
+
+    /**
+     * Applies a patch from the inbox the same way as a pasted diff, then moves
+     * it to `applied`, or to `rejected` if it failed, with the result.
+     */
+    public async applyInboxPatch(patchFileUri: vscode.Uri): Promise<PatchApplyResult> {
+        const diffText = await this.readInboxPatch(patchFileUri);
+        if (diffText === undefined) {
+            return { applied: [], skipped: [], failed: [], error: 'The patch file could not be read.' };
+        }
+        if (!this._inbox.take(patchFileUri)) {
+            return { applied: [], skipped: [], failed: [], error: 'The patch is not in the inbox or is already being processed.' };
+        }
+        try {
+            const result = await this.applyAllPatchesToFiles(diffText);
+            // Patches the user cancelled, or whose files were all skipped, stay queued to be dealt with again.
+            const nothingTried = result.applied.length === 0 && result.failed.length === 0 && result.skipped.length > 0;
+            if (!result.cancelled && !nothingTried) {
+                await this._inbox.complete(patchFileUri, result);
             }
+            return result;
+        } finally {
+            this._inbox.release(patchFileUri);
+        }
+    }
+
+    /** Moves a patch from the inbox to `rejected` without applying it. */
+    public async rejectInboxPatch(patchFileUri: vscode.Uri) {
+        if (this._inbox.take(patchFileUri)) {
+            await this._inbox.reject(patchFileUri);
+        }
+    }
+
+    /** Opens the diff views for a diff that did not come from the panel. */
+    public async previewDiff(rawDiffText: string) {
+        this._currentRawDiffText = rawDiffText;
+        await this.processAndShowAllDiffs(rawDiffText);
+    }
+
+    /** Opens a diff view for every file of the diff, or only for the one at `fileIndex`. */
+    private async processAndShowAllDiffs(rawDiffText: string, fileIndex?: number) {
+        const allPatches = await this.parsePatchesForAction(rawDiffText, 'preview');
+        if (!allPatches) {
             return;
         }
+        const parsedPatches = fileIndex === undefined ? allPatches : allPatches.slice(fileIndex, fileIndex + 1);
 
+        const resolver = await TargetResolver.create(parsedPatches, workspaceFileSystem);
         let diffsShownCount = 0;
         for (const patch of parsedPatches) {
-            if (!patch.hunks || patch.hunks.length === 0) {
-                const patchFileName = patch.oldFileName || patch.newFileName || 'unknown file';
-                vscode.window.showInformationMessage(`Skipping diff view for ${patchFileName.replace(/^[ab]\//, '')} as it has no changes (hunks).`);
+            const patchFileName = (patch.oldFileName || patch.newFileName || 'unknown file').replace(/^[ab]\//, '');
+            if (isBinaryPatch(patch)) {
+                vscode.window.showWarningMessage(`Cannot preview binary changes to ${patchFileName}. Binary patches are not supported.`);
+                continue;
+            }
+            if (patch.hunks.length === 0 && patch.fullContent === undefined) {
+                const operation = patchOperation(patch);
+                if (operation === 'rename' || operation === 'copy') {
+                    vscode.window.showInformationMessage(`${patchFileName} is ${operation === 'rename' ? 'renamed' : 'copied'} to ${patch.newFileName.replace(/^b\//, '')} without content changes.`);
+                } else {
+                    vscode.window.showInformationMessage(`Skipping diff view for ${patchFileName} as it has no changes (hunks).`);
+                }
                 continue;
             }
 
             try {
-                let originalContentLines: string[] = [];
-                let newContentLines: string[] = [];
-
-                patch.hunks.forEach(hunk => {
-                    hunk.lines.forEach(line => {
-                        const changeType = line.charAt(0);
-                        const lineContent = line.substring(1);
-                        if (changeType === ' ' || changeType === '-') {
-                            originalContentLines.push(lineContent);
-                        }
-                        if (changeType === ' ' || changeType === '+') {
-                            newContentLines.push(lineContent);
-                        }
-                    });
-                });
+                const target = await this._engine.resolveTarget(patch, resolver);
+                if (target instanceof PatchRejection) {
+                    continue;
+                }
 
-                const originalContent = normalizeLineEndings(originalContentLines.join('\n'));
-                const newContent = normalizeLineEndings(newContentLines.join('\n'));
+                let originalContent = '';
+                let originalUri = target.uri;
+                const fileExists = await this._engine.fileExists(target.uri);
+                if (fileExists && !target.isNewFile) {
+                    originalContent = await this._engine.readTargetText(target.uri);
+                } else {
+                    // Nothing on disk to compare against; show an empty left side with the same language.
+                    originalUri = this._previewProvider.setPreview(target.uri, '', 'original');
+                }
 
-                const originalDoc = await vscode.workspace.openTextDocument({ content: originalContent, language: 'text' });
-                const newDoc = await vscode.workspace.openTextDocument({ content: newContent, language: 'text' });
+                const prepared = this._engine.prepareForApply(originalContent, patch, vscode.workspace.asRelativePath(target.uri));
+                const { content: patchedContent, hunkResults } = applyHunksIndividually(originalContent, prepared.patch, prepared.options);
+                const failedHunks = hunkResults.filter(result => !result.applied);
+                const patchedUri = this._previewProvider.setPreview(target.uri, target.isDeletedFile && failedHunks.length === 0 ? '' : patchedContent);
 
-                const originalFileName = patch.oldFileName ? patch.oldFileName.replace(/^a\//, '') : 'original.txt';
-                const newFileName = patch.newFileName ? patch.newFileName.replace(/^b\//, '') : 'modified.txt';
-                const title = `Diff: ${originalFileName}  ↔  ${newFileName}`;
+                const relativePath = vscode.workspace.asRelativePath(target.uri);
+                let title = `Patch Preview: ${relativePath}`;
+                if (target.destinationUri) {
+                    title += ` → ${vscode.workspace.asRelativePath(target.destinationUri)}`;
+                }
+                if (target.isNewFile) {
+                    title += ' (new file)';
+                } else if (target.isDeletedFile) {
+                    title += ' (deleted)';
+                }
+                if (failedHunks.length > 0) {
+                    title += ` ⚠ ${failedHunks.length} of ${hunkResults.length} hunk(s) failed`;
+                    const failedHeaders = failedHunks.map(result => `#${result.index + 1} ${formatHunkHeader(result.hunk)}`).join(', ');
+                    const message = `${failedHunks.length} hunk(s) do not apply to ${relativePath} and are missing from the preview: ${failedHeaders}`;
+                    vscode.window.showWarningMessage(message);
+                    if (this._view) {
+                        this._view.webview.postMessage({ type: 'parseError', message });
+                    }
+                }
 
-                await vscode.commands.executeCommand('vscode.diff', originalDoc.uri, newDoc.uri, title, {
+                await vscode.commands.executeCommand('vscode.diff', originalUri, patchedUri, title, {
                     preview: true,
                 });
                 diffsShownCount++;
@@ -153,283 +376,504 @@ export class PatchApplyViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async applyAllPatchesToFiles(rawDiffText: string) {
-        const cleanDiffText = this.cleanDiffInput(rawDiffText);
-        if (!cleanDiffText) {
-            vscode.window.showInformationMessage('No diff content to process for applying to file.');
-            return;
+    /**
+     * Parses the pasted text in whichever input format it is in: a unified diff
+     * (falling back to the recovery parser for LLM-produced diffs), SEARCH/REPLACE
+     * blocks or whole files with a path header. Repairs are reported.
+     */
+    private async parsePatchesForAction(rawDiffText: string, action: string): Promise<ParsedPatchType[] | undefined> {
+        if (!cleanDiffInput(rawDiffText)) {
+            vscode.window.showInformationMessage(`No diff content to process for ${action}.`);
+            return undefined;
         }
 
-        let parsedPatches: ParsedPatchType[];
-        try {
-            parsedPatches = Diff.parsePatch(cleanDiffText);
-            if (!parsedPatches || parsedPatches.length === 0) {
-                vscode.window.showErrorMessage('Could not parse the diff for applying or no changes found. Ensure it is a valid unified diff format.');
-                if (this._view) {
-                     this._view.webview.postMessage({ type: 'parseError', message: 'Could not parse the diff for applying or no changes found.' });
-                }
-                return;
+        const parseResult = this._engine.parse(rawDiffText);
+        const format = parseResult.format;
+        if (parseResult.error) {
+            vscode.window.showErrorMessage(`Error parsing ${format.label} for ${action}: ${parseResult.error}`);
+            if (this._view) {
+                this._view.webview.postMessage({ type: 'parseError', message: `Error parsing ${format.label} for ${action}: ${parseResult.error}` });
             }
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : String(e);
-            vscode.window.showErrorMessage(`Error parsing diff for applying: ${errorMessage}`);
+            return undefined;
+        }
+
+        const parsedPatches = parseResult.patches;
+        if (!parsedPatches.some(patchHasChanges)) {
+            vscode.window.showErrorMessage(`Could not parse the diff for ${action} or no changes found. Ensure it is a valid unified diff format.`);
             if (this._view) {
-                this._view.webview.postMessage({ type: 'parseError', message: `Error parsing diff for applying: ${errorMessage}` });
+                 this._view.webview.postMessage({ type: 'parseError', message: `Could not parse the diff for ${action} or no changes found.` });
             }
-            return;
+            return undefined;
+        }
+        if (format !== unifiedDiffFormat) {
+            vscode.window.setStatusBarMessage(`Patch Apply: read input as ${format.label}`, 5000);
         }
+        this.reportRepairs(parseResult.repairs);
+        await this._engine.markMissingFullFileTargetsAsNew(parsedPatches);
+        return parsedPatches;
+    }
 
-        let appliedCount = 0;
-        let skippedCount = 0;
-        let errorCount = 0;
+    private reportRepairs(repairs: string[]) {
+        if (repairs.length === 0) {
+            return;
+        }
+        vscode.window.showInformationMessage(`Repaired the diff (${repairs.length} fix(es)): ${repairs.join(' ')}`);
+        if (this._view) {
+            this._view.webview.postMessage({ type: 'repairReport', repairs });
+        }
+    }
 
-        for (const patchObjectToApply of parsedPatches) {
-            const patchName = (patchObjectToApply.oldFileName || patchObjectToApply.newFileName || "unknown_file").replace(/^[ab]\//, '');
-            if (!patchObjectToApply.hunks || patchObjectToApply.hunks.length === 0) {
-                vscode.window.showInformationMessage(`Skipping patch for '${patchName}' as it has no content/hunks.`);
-                skippedCount++;
-                continue;
+    /**
+     * Parses and applies a diff, or with `reverse` undoes it, and records the
+     * attempt in the patch history. Used by the panel and by the apply commands,
+     * which hand the structured result back to their caller.
+     */
+    public async applyAllPatchesToFiles(rawDiffText: string, options: ApplyOptions = {}): Promise<PatchApplyResult> {
+        const reverse = options.reverse ?? false;
+        let parsedPatches = await this.parsePatchesForAction(rawDiffText, reverse ? 'reverse-applying' : 'applying');
+        if (!parsedPatches) {
+            return { applied: [], skipped: [], failed: [], error: 'The diff could not be parsed or contains no changes.' };
+        }
+        let historyText = rawDiffText;
+        if (options.fileIndex !== undefined) {
+            parsedPatches = parsedPatches.slice(options.fileIndex, options.fileIndex + 1);
+            const [patch] = parsedPatches;
+            // The history keeps only the applied file where a plain unified diff can express it.
+            if (patch && patch.fullContent === undefined && !hasFileOperation(patch)) {
+                historyText = Diff.formatPatch(parsedPatches);
             }
-
-            try {
-                const success = await this.applySinglePatch(patchObjectToApply);
-                if (success) {
-                    appliedCount++;
-                } else {
-                    skippedCount++; // Or errorCount, depending on if applySinglePatch distinguishes cancellation from error
-                }
-            } catch (err) { // Catch unexpected errors from applySinglePatch itself
-                errorCount++;
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                vscode.window.showErrorMessage(`Critical error while processing patch for '${patchName}': ${errorMessage}`);
+        }
+        if (reverse) {
+            if (parsedPatches.some(patch => patch.fullContent !== undefined)) {
+                const error = 'Whole-file blocks cannot be reverse-applied, as the previous content of the file is not known.';
+                vscode.window.showErrorMessage(error);
+                return { applied: [], skipped: [], failed: [], error };
             }
+            // Later patches to the same file build on earlier ones, so they are undone first.
+            parsedPatches = parsedPatches.map(reverseFilePatch).reverse();
         }
+        const result = await this.applyParsedPatches(parsedPatches, undefined, options);
+        await this.recordHistory(historyText, result, reverse);
+        return result;
+    }
 
-        let summaryMessage = `Patch application process finished. Applied: ${appliedCount}, Skipped/Cancelled: ${skippedCount}, Errors: ${errorCount}.`;
-        if (errorCount > 0) {
-            vscode.window.showErrorMessage(summaryMessage + " Check previous messages for details.");
-        } else if (appliedCount > 0) {
-            vscode.window.showInformationMessage(summaryMessage);
-        } else {
-            vscode.window.showWarningMessage(summaryMessage + " No patches were successfully applied.");
+    /**
+     * Applies a diff and commits the files it touched. The commit message is taken
+     * from the `Subject:` and body of a `git format-patch` mail, or asked for.
+     * `rawDiffText` defaults to the diff in the panel.
+     */
+    public async applyAndCommit(rawDiffText?: string, options: Pick<ApplyOptions, 'openEditors'> = {}): Promise<PatchApplyResult> {
+        const diffText = rawDiffText ?? this._currentRawDiffText;
+        if (!diffText) {
+            vscode.window.showErrorMessage('Diff text is empty. Paste a diff in the Apply Patch panel first.');
+            return { applied: [], skipped: [], failed: [], error: 'No diff text was given.' };
+        }
+        this._currentRawDiffText = diffText;
+
+        const patchMessage = commitMessageFromPatch(diffText);
+        const commitMessage = this._prompts.nonInteractive
+            ? patchMessage ?? 'Apply patch'
+            : await vscode.window.showInputBox({
+                prompt: 'Commit message for the patch',
+                value: patchMessage,
+                validateInput: value => value.trim() ? undefined : 'The commit message must not be empty.',
+            });
+        if (!commitMessage) {
+            return { applied: [], skipped: [], failed: [], error: 'No commit message was given.' };
         }
+        return this.applyAllPatchesToFiles(diffText, { ...options, commitMessage });
     }
 
-    private async applySinglePatch(patchObjectToApply: ParsedPatchType): Promise<boolean> {
-        const isNewFile = patchObjectToApply.oldFileName === 'a/dev/null' || patchObjectToApply.oldFileName === '/dev/null';
-        const isDeletedFile = patchObjectToApply.newFileName === 'b/dev/null' || patchObjectToApply.newFileName === '/dev/null';
+    private async recordHistory(diffText: string, result: PatchApplyResult, reversed: boolean) {
+        if (result.applied.length === 0 && result.failed.length === 0) {
+            return; // Nothing was attempted.
+        }
+        await this._history.record(diffText, result, reversed);
+    }
 
-        let displayFileName: string | undefined;
-        let searchFileNameNormalized: string | undefined;
+    /** Opens the diff of a history entry in an editor. */
+    public async viewHistoryEntry(entry: PatchHistoryEntry) {
+        const doc = await vscode.workspace.openTextDocument({ content: entry.diffText, language: 'diff' });
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+
+    /** Applies a history entry again, in the same direction as before. */
+    public async reapplyHistoryEntry(entry: PatchHistoryEntry): Promise<PatchApplyResult> {
+        return this.applyAllPatchesToFiles(entry.diffText, { reverse: entry.reversed });
+    }
+
+    /** Undoes a history entry by applying its diff the other way round. */
+    public async reverseApplyHistoryEntry(entry: PatchHistoryEntry): Promise<PatchApplyResult> {
+        return this.applyAllPatchesToFiles(entry.diffText, { reverse: !entry.reversed });
+    }
+
+    /** Applies the diff last pasted in the panel. */
+    public async applyPanelDiff(): Promise<PatchApplyResult> {
+        if (!this._currentRawDiffText) {
+            vscode.window.showErrorMessage('Diff text is empty. Paste a diff in the Apply Patch panel first.');
+            return { applied: [], skipped: [], failed: [], error: 'No diff text was given.' };
+        }
+        return this.applyAllPatchesToFiles(this._currentRawDiffText);
+    }
+
+    public async applyFromClipboard(): Promise<PatchApplyResult> {
+        const clipboardText = await vscode.env.clipboard.readText();
+        if (!clipboardText.trim()) {
+            vscode.window.showErrorMessage('The clipboard is empty.');
+            return { applied: [], skipped: [], failed: [], error: 'The clipboard is empty.' };
+        }
+        return this.applyAllPatchesToFiles(clipboardText);
+    }
+
+    /** Applies the selected text of the active editor, or the whole document when nothing is selected. */
+    public async applyFromSelection(): Promise<PatchApplyResult> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor to take the diff from.');
+            return { applied: [], skipped: [], failed: [], error: 'No active editor.' };
+        }
+        const diffText = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+        return this.applyAllPatchesToFiles(diffText);
+    }
 
-        if (isNewFile) {
-            searchFileNameNormalized = patchObjectToApply.newFileName?.replace(/^b\//, '');
-        } else { // Modification or Deletion
-            searchFileNameNormalized = patchObjectToApply.oldFileName?.replace(/^a\//, '');
+    /** Applies a `.diff` or `.patch` file, asking for one when no URI is given. */
+    public async applyPatchFile(patchFileUri?: vscode.Uri): Promise<PatchApplyResult> {
+        const fileUri = patchFileUri ?? (await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Apply Patch',
+            filters: { 'Patch files': ['diff', 'patch'], 'All files': ['*'] },
+        }))?.[0];
+        if (!fileUri) {
+            return { applied: [], skipped: [], failed: [], error: 'No patch file was selected.' };
         }
-        displayFileName = searchFileNameNormalized || (patchObjectToApply.newFileName?.replace(/^b\//, '')) || "unknown_file";
+        try {
+            const fileContent = decodeTextFile(await vscode.workspace.fs.readFile(fileUri)).text;
+            return await this.applyAllPatchesToFiles(fileContent);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Could not read patch file '${vscode.workspace.asRelativePath(fileUri)}': ${errorMessage}`);
+            return { applied: [], skipped: [], failed: [], error: errorMessage };
+        }
+    }
 
+    /**
+     * Lists every hunk of the diff in the hunk review view so that the user can
+     * pick which ones to apply.
+     */
+    public async startHunkReview(rawDiffText: string) {
+        const parsedPatches = await this.parsePatchesForAction(rawDiffText, 'review');
+        if (!parsedPatches) {
+            return;
+        }
 
-        if (!searchFileNameNormalized || searchFileNameNormalized === '/dev/null' || searchFileNameNormalized.trim() === '') {
-            if (isNewFile && patchObjectToApply.newFileName) { // Could be a valid new file name like 'newfile.txt'
-                 searchFileNameNormalized = patchObjectToApply.newFileName.replace(/^b\//, '');
-                 displayFileName = searchFileNameNormalized;
-            } else {
-                vscode.window.showErrorMessage(`Could not determine a valid file name from patch: old='${patchObjectToApply.oldFileName}', new='${patchObjectToApply.newFileName}'. Skipping.`);
-                return false;
+        const resolver = await TargetResolver.create(parsedPatches, workspaceFileSystem);
+        const reviewFiles: ReviewFile[] = [];
+        for (let patch of parsedPatches) {
+            if (patch.hunks.length === 0 && patch.fullContent === undefined) {
+                continue;
+            }
+            const target = await this._engine.resolveTarget(patch, resolver);
+            if (target instanceof PatchRejection) {
+                continue;
+            }
+            if (patch.fullContent !== undefined) {
+                const currentContent = !target.isNewFile && await this._engine.fileExists(target.uri)
+                    ? await this._engine.readTargetText(target.uri)
+                    : '';
+                patch = fullFileToHunks(currentContent, patch);
             }
+            reviewFiles.push({ patch, target, accepted: patch.hunks.map(() => true) });
         }
-        
-        let targetFileUri: vscode.Uri | undefined;
 
-        if (isNewFile) {
-            const wsFolder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0 ? vscode.workspace.workspaceFolders[0].uri : undefined;
-            const defaultPath = wsFolder ? vscode.Uri.joinPath(wsFolder, searchFileNameNormalized).fsPath : searchFileNameNormalized;
+        if (reviewFiles.length === 0) {
+            vscode.window.showWarningMessage('No hunks to review.');
+            return;
+        }
+        this._hunkReview.setReview(reviewFiles);
+        await vscode.commands.executeCommand(`${HunkReviewTreeProvider.viewType}.focus`);
+    }
 
-            const chosenPathStr = await vscode.window.showInputBox({
-                prompt: `Enter path to create new file: ${searchFileNameNormalized}`,
-                value: defaultPath,
-                placeHolder: "Enter full path for the new file"
-            });
+    /**
+     * Stages the diff inside the target editors: the patched text is written into
+     * each document and every hunk gets Accept/Reject actions. Only existing files
+     * that are modified in place can be reviewed this way. The safety policy and
+     * uncommitted changes are checked as for an apply, before anything is staged.
+     */
+    public async startInlineReview(rawDiffText: string) {
+        const parsedPatches = await this.parsePatchesForAction(rawDiffText, 'inline review');
+        if (!parsedPatches) {
+            return;
+        }
 
-            if (chosenPathStr) {
-                targetFileUri = vscode.Uri.file(chosenPathStr);
-            } else {
-                vscode.window.showInformationMessage(`Creation of new file '${searchFileNameNormalized}' cancelled.`);
-                return false;
+        const resolver = await TargetResolver.create(parsedPatches, workspaceFileSystem);
+        const skipped: string[] = [];
+        const reviewFiles: { patch: ParsedPatchType; target: PatchTarget }[] = [];
+        for (const patch of parsedPatches) {
+            const patchFileName = (patch.oldFileName || patch.newFileName || 'unknown file').replace(/^[ab]\//, '');
+            const operation = patchOperation(patch);
+            if (isBinaryPatch(patch) || operation !== 'modify' || (patch.hunks.length === 0 && patch.fullContent === undefined)) {
+                skipped.push(patchFileName);
+                continue;
             }
-        } else { // Modification or Deletion - Find existing file
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const wsFolder = vscode.workspace.workspaceFolders[0].uri;
-                let foundFilesUris: vscode.Uri[] = [];
-
-                try { // Try exact path match first relative to workspace root
-                    const potentialUri = vscode.Uri.joinPath(wsFolder, searchFileNameNormalized);
-                    try {
-                        await vscode.workspace.fs.stat(potentialUri);
-                        foundFilesUris.push(potentialUri);
-                    } catch { /* file not at this exact path */ }
-                } catch (e) { /* ignore error from joinPath if searchFileNameNormalized is invalid */ }
-
-
-                if (foundFilesUris.length === 0) { // If not found by direct join, try findFiles
-                    try {
-                        // Search for the file name more broadly if not found directly
-                        const globPattern = `**/${searchFileNameNormalized.split('/').pop()}`; // Search for basename
-                        foundFilesUris = await vscode.workspace.findFiles(globPattern, '**/node_modules/**', 5);
-                    } catch (e) { /* Ignored */ }
-                }
-                
-                if (foundFilesUris.length === 1) {
-                    const relativePath = vscode.workspace.asRelativePath(foundFilesUris[0]);
-                    const choice = await vscode.window.showQuickPick(
-                        ["Yes, Apply to this file", "Choose Different File", "Cancel"],
-                        { placeHolder: `Found: ${relativePath} for patch target '${displayFileName}'. Apply patch?`, canPickMany: false }
-                    );
-                    if (choice === "Yes, Apply to this file") {
-                        targetFileUri = foundFilesUris[0];
-                    } else if (choice === "Cancel" || !choice) {
-                        vscode.window.showInformationMessage(`Patch application for '${displayFileName}' cancelled.`);
-                        return false;
-                    } // If "Choose Different File", targetFileUri remains undefined, prompting manual selection
-                } else if (foundFilesUris.length > 1) {
-                    const quickPickItems: FileQuickPickItem[] = foundFilesUris.map(fUri => ({
-                        label: vscode.workspace.asRelativePath(fUri),
-                        uri: fUri,
-                        action: 'select_this_uri'
-                    }));
-                    quickPickItems.push({ label: "Choose Different File (Manually)", action: 'choose_manually' });
-                    quickPickItems.push({ label: "Cancel", action: 'cancel_operation' });
-
-                    const chosenItem = await vscode.window.showQuickPick<FileQuickPickItem>(
-                        quickPickItems, { placeHolder: `Multiple files found for '${displayFileName}'. Select one or choose manually:`, canPickMany: false }
-                    );
-
-                    if (!chosenItem || chosenItem.action === 'cancel_operation') {
-                        vscode.window.showInformationMessage(`Patch application for '${displayFileName}' cancelled.`);
-                        return false;
-                    }
-                    if (chosenItem.action === 'select_this_uri' && chosenItem.uri) {
-                        targetFileUri = chosenItem.uri;
-                    } // If 'choose_manually', targetFileUri remains undefined
-                }
+            const target = await this._engine.resolveTarget(patch, resolver);
+            if (target instanceof PatchRejection) {
+                continue;
             }
-            // If targetFileUri is still not set (no workspace, file not found, or user chose to pick manually)
-            if (!targetFileUri) {
-                const openDialogOptions: vscode.OpenDialogOptions = {
-                    canSelectMany: false,
-                    openLabel: `Select Target File for Patch: '${displayFileName}'`,
-                    filters: { 'All files': ['*'] }
-                };
-                if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                    try {
-                        openDialogOptions.defaultUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, searchFileNameNormalized);
-                    } catch (e) { /* ignore if searchFileNameNormalized is bad */ }
-                } else if (searchFileNameNormalized) {
-                    // Try to construct a URI if no workspace, this might not resolve well but better than nothing
-                     try { openDialogOptions.defaultUri = vscode.Uri.file(searchFileNameNormalized); } catch (e) {/*ignore*/}
-                }
+            reviewFiles.push({ patch, target });
+        }
+        if (skipped.length > 0) {
+            vscode.window.showInformationMessage(`Inline review only covers files changed in place. Not staged: ${skipped.join(', ')}.`);
+        }
+        if (reviewFiles.length === 0) {
+            return;
+        }
 
-                const uris = await vscode.window.showOpenDialog(openDialogOptions);
-                if (uris && uris.length > 0) {
-                    targetFileUri = uris[0];
-                } else {
-                    vscode.window.showInformationMessage(`No file selected for '${displayFileName}'. Patch application cancelled for this file.`);
-                    return false;
+        const actions = reviewFiles.map(({ patch, target }) => ({ uri: target.uri, operation: 'modify' as const, ...countChangedLines(patch) }));
+        if (await this._safetyPolicy.check(actions, this._prompts.nonInteractive)) {
+            return;
+        }
+        const prepared = await this._git.prepareTargets(actions.map(action => action.uri), reviewFiles.map(({ target }) => target.displayFileName).join(', '));
+        const gitState: GitApplyState = { stashes: prepared.stashes, branches: [] };
+        if (prepared.reason) {
+            await this._git.endApply(gitState, false);
+            return;
+        }
+
+        let firstDocument: vscode.TextDocument | undefined;
+        let stagedCount = 0;
+        try {
+            for (const { patch, target } of reviewFiles) {
+                try {
+                    const document = await vscode.workspace.openTextDocument(target.uri);
+                    const originalContent = normalizeLineEndings(document.getText());
+                    const prepared = this._engine.prepareForApply(originalContent, patch, vscode.workspace.asRelativePath(target.uri));
+                    const patchedContent = Diff.applyPatch(originalContent, prepared.patch, prepared.options);
+                    if (patchedContent === false) {
+                        vscode.window.showWarningMessage(`Patch for ${vscode.workspace.asRelativePath(target.uri)} does not apply and was not staged. Use "Review Hunks" to apply the hunks that fit.`);
+                        continue;
+                    }
+                    stagedCount += await this._pendingChanges.stage(document, patchedContent);
+                    firstDocument ??= document;
+                } catch (err) {
+                    const errorMessage = err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(`Could not stage the patch for ${vscode.workspace.asRelativePath(target.uri)}: ${errorMessage}`);
                 }
             }
+        } finally {
+            // Changes stashed for a review that staged nothing are put back.
+            await this._git.endApply(gitState, stagedCount > 0);
         }
-        
-        if (!targetFileUri) {
-            vscode.window.showErrorMessage(`Could not determine target file for patch '${displayFileName}'. Skipping.`);
-            return false;
+
+        if (firstDocument) {
+            await vscode.window.showTextDocument(firstDocument, { preview: false });
+            vscode.window.setStatusBarMessage(`Staged ${stagedCount} change(s) for review. Accept or reject them in the editor.`, 5000);
         }
+    }
 
-        try {
-            let originalFileContent = '';
-            let fileExists = false;
+    public async applySelectedHunks() {
+        const reviewFiles = this._hunkReview.files;
+        if (reviewFiles.length === 0) {
+            vscode.window.showInformationMessage('There is no hunk review in progress. Paste a diff and click "Review Hunks" first.');
+            return;
+        }
 
-            try {
-                const stat = await vscode.workspace.fs.stat(targetFileUri);
-                if (stat.type === vscode.FileType.Directory) {
-                     vscode.window.showErrorMessage(`Target path ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}' is a directory. Cannot apply patch.`);
-                     return false;
-                }
-                fileExists = true;
-            } catch (e: any) {
-                if (e.code === 'FileNotFound' || e.name === 'EntryNotFound') { // Handle both common error codes for not found
-                    fileExists = false;
-                } else {
-                    throw e; // Rethrow other stat errors (e.g., permission)
-                }
+        const selectedPatches: ParsedPatchType[] = [];
+        const targets = new Map<ParsedPatchType, PatchTarget>();
+        for (const reviewFile of reviewFiles) {
+            const acceptedIndices = reviewFile.accepted.flatMap((accepted, index) => accepted ? [index] : []);
+            if (acceptedIndices.length === 0) {
+                continue;
             }
+            const selectedPatch = selectHunks(reviewFile.patch, acceptedIndices);
+            selectedPatches.push(selectedPatch);
+            targets.set(selectedPatch, reviewFile.target);
+        }
 
-            if (isNewFile) {
-                if (fileExists) {
-                    const overwrite = await vscode.window.showWarningMessage(
-                        `Target file ${vscode.workspace.asRelativePath(targetFileUri)} for new file patch '${displayFileName}' already exists. Overwrite?`,
-                        { modal: true }, "Overwrite"
-                    );
-                    if (overwrite !== "Overwrite") {
-                        vscode.window.showInformationMessage(`Patch application for new file '${displayFileName}' cancelled due to existing file.`);
-                        return false;
-                    }
-                }
-                originalFileContent = ''; // Patch is expected to create the full content
-            } else { // Modification or Deletion
-                if (!fileExists) {
-                    vscode.window.showErrorMessage(`Target file ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}' not found. Cannot apply modification/deletion patch.`);
-                    return false;
+        if (selectedPatches.length === 0) {
+            vscode.window.showWarningMessage('No hunks are accepted. Nothing to apply.');
+            return;
+        }
+        const result = await this.applyParsedPatches(selectedPatches, targets, { openEditors: true });
+        await this.recordHistory(Diff.formatPatch(selectedPatches), result, false);
+        if (result.applied.length > 0) {
+            this._hunkReview.clear();
+        }
+    }
+
+    /**
+     * Applies parsed patches as a single transaction. Targets already resolved by
+     * the caller can be passed in `resolvedTargets` to avoid resolving them again.
+     * With a `commitMessage`, the touched files are committed after the apply.
+     */
+    private async applyParsedPatches(parsedPatches: ParsedPatchType[], resolvedTargets?: Map<ParsedPatchType, PatchTarget>, options: ApplyOptions = {}): Promise<PatchApplyResult> {
+        // Dry run: resolve and patch every target in memory before touching the disk.
+        // The safety policy is checked, then uncommitted changes are checked or
+        // stashed, before the targets are read.
+        const gitState: GitApplyState = { stashes: [], branches: [] };
+        const plan = await this._engine.plan(parsedPatches, {
+            resolvedTargets,
+            beforeReading: async (actions, label) => {
+                const refusal = await this._safetyPolicy.check(actions, this._prompts.nonInteractive);
+                if (refusal) {
+                    return refusal;
                 }
-                const originalFileContentBytes = await vscode.workspace.fs.readFile(targetFileUri);
-                originalFileContent = new TextDecoder().decode(originalFileContentBytes);
+                const prepared = await this._git.prepareTargets(actions.flatMap(action => action.destinationUri ? [action.uri, action.destinationUri] : [action.uri]), label);
+                gitState.stashes.push(...prepared.stashes);
+                return prepared.reason;
+            },
+        });
+        let result: PatchApplyResult | undefined;
+        try {
+            result = await this.applyPlan(plan, gitState, options);
+            return result;
+        } finally {
+            // Changes stashed and branches created for a patch that was not written are undone.
+            await this._git.endApply(gitState, result !== undefined && result.applied.length > 0);
+        }
+    }
+
+    /** Writes a planned patch unless planning failed, then validates, stages or commits it. */
+    private async applyPlan(plan: PatchPlan, gitState: GitApplyState, options: ApplyOptions): Promise<PatchApplyResult> {
+        const { files: plannedFiles, skipped, failed } = plan;
+        if (plan.error) {
+            return { applied: [], skipped, failed, error: plan.error };
+        }
+
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(
+                `Patch not applied: ${failed.length} file(s) could not be patched (${failed.map(file => file.path).join(', ')}). ` +
+                `No files were changed. Check previous messages for details.`
+            );
+            const notApplied = plannedFiles.map(file => ({ ...file, reason: 'Not applied because other files of the patch failed.' }));
+            return { applied: [], skipped: [...skipped, ...notApplied], failed, cancelled: plan.cancelled || undefined };
+        }
+        if (plan.changes.length === 0) {
+            vscode.window.showWarningMessage(`No patches were applied. Skipped: ${skipped.length}.`);
+            return { applied: [], skipped, failed, error: 'Nothing to apply.' };
+        }
+
+        const changesToCommit = plan.changes;
+        const started = await this._git.startBranch(changesToCommit.map(change => change.uri), this._prompts.nonInteractive);
+        gitState.branches.push(...started.branches);
+        const branchReason = started.reason;
+        if (branchReason) {
+            return { applied: [], skipped: [...skipped, ...plannedFiles.map(file => ({ ...file, reason: branchReason }))], failed, error: branchReason };
+        }
+        const diagnosticsBefore = await this._validator.snapshotDiagnostics(changesToCommit);
+        const transaction = new PatchTransaction(changesToCommit.map(change => change.displayFileName).join(', '));
+        try {
+            await transaction.commit(changesToCommit);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Error writing patched files, all changes were rolled back: ${errorMessage}`);
+            return { applied: [], skipped, failed: plannedFiles.map(file => ({ ...file, reason: errorMessage })), error: errorMessage };
+        }
+        this._lastTransaction = transaction;
+
+        const saveAfterApply = vscode.workspace.getConfiguration('vscodepatchapply').get<boolean>('saveAfterApply', false);
+        for (const change of changesToCommit) {
+            if (change.document && change.kind !== 'delete' && saveAfterApply) {
+                await change.document.save();
             }
+            if (options.openEditors && change.kind !== 'delete' && !change.rejectFile && change.newContent) {
+                await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(change.uri), { preview: false });
+            }
+        }
 
-            const normalizedOriginalContent = normalizeLineEndings(originalFileContent);
-            const patchedContentResult = Diff.applyPatch(normalizedOriginalContent, patchObjectToApply, {
-                fuzzFactor: 2 // Add a small fuzz factor for robustness
-            });
+        const validation = await this._validator.validate(changesToCommit, diagnosticsBefore);
+        // Formatting is part of the apply, not an edit a revert has to ask about.
+        await transaction.updateWrittenContent().catch(() => undefined);
+        if (validation) {
+            this.reportValidation(validation, options.commitMessage !== undefined);
+        }
+        // A patch that fails validation is not committed, so that it can still be rolled back.
+        await this._git.finish(changesToCommit, validation?.passed === false ? undefined : options.commitMessage);
+
+        const count = (operation: FileOperation) => plannedFiles.filter(file => file.operation === operation).length;
+        const summaryMessage =
+            `Patch applied. Modified: ${count('modify')}, Created: ${count('create')}, Deleted: ${count('delete')}, ` +
+            `Renamed: ${count('rename')}, Copied: ${count('copy')}, Skipped: ${skipped.length}.`;
+        const partialFiles = changesToCommit.filter(change => change.hunkOutcome);
+        if (partialFiles.length === 0) {
+            vscode.window.showInformationMessage(`${summaryMessage} Use "Revert Last Applied Patch" to undo.`);
+            return { applied: plannedFiles, skipped, failed, validation };
+        }
 
+        const hunkReport = partialFiles.map(change => {
+            const outcome = change.hunkOutcome!;
+            const resolution = outcome.resolution === 'conflictMarkers' ? 'written as conflict markers' : 'written to a .rej file';
+            return `${vscode.workspace.asRelativePath(change.uri)}: ${outcome.applied} hunk(s) applied, ` +
+                `${outcome.failed.length} failed (${outcome.failed.join(', ')}) and ${resolution}.`;
+        });
+        vscode.window.showWarningMessage(`${summaryMessage} Some hunks did not apply: ${hunkReport.join(' ')}`);
+        if (this._view) {
+            this._view.webview.postMessage({ type: 'parseError', message: `Some hunks did not apply: ${hunkReport.join(' ')}` });
+        }
+        return { applied: plannedFiles, skipped, failed, validation };
+    }
 
-            if (patchedContentResult === false) {
-                vscode.window.showErrorMessage(
-                    `Failed to apply patch to ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}'. ` +
-                    `File content might not match the patch's expected original state (even with fuzziness). ` +
-                    `Ensure the correct file is selected and it has not been modified too extensively.`
-                );
-                return false;
+    /** Shows the validation results in the panel and offers a rollback when a check failed. */
+    private reportValidation(validation: ValidationReport, commitWanted: boolean) {
+        this._view?.webview.postMessage({ type: 'validationReport', report: validation });
+        if (validation.passed) {
+            vscode.window.setStatusBarMessage('Patch Apply: validation passed.', 5000);
+            return;
+        }
+        const failedSteps = validation.steps.filter(step => !step.passed).map(step => step.name).join(', ');
+        const notCommitted = commitWanted ? ' The patch was not committed.' : '';
+        vscode.window.showWarningMessage(`Validation of the applied patch failed: ${failedSteps}.${notCommitted}`, 'Roll Back').then(choice => {
+            if (choice === 'Roll Back') {
+                this.revertLastAppliedPatch(false);
             }
-            
-            if (isDeletedFile) {
-                 if (patchedContentResult.trim() === '') {
-                    await vscode.workspace.fs.delete(targetFileUri);
-                    vscode.window.showInformationMessage(`Patch applied and file ${vscode.workspace.asRelativePath(targetFileUri)} ('${displayFileName}') successfully deleted.`);
-                } else {
-                    // If patch was for deletion but result is not empty, write the (unexpected) content.
-                    await vscode.workspace.fs.writeFile(targetFileUri, new TextEncoder().encode(patchedContentResult));
-                    vscode.window.showWarningMessage(`Patch for deleting ${vscode.workspace.asRelativePath(targetFileUri)} ('${displayFileName}') resulted in non-empty content. File was updated instead of deleted.`);
-                     const doc = await vscode.workspace.openTextDocument(targetFileUri);
-                     await vscode.window.showTextDocument(doc);
+        });
+    }
+
+    /**
+     * Restores the files the last applied patch changed, after asking unless
+     * `confirm` is false. Files edited since the apply are always asked about, as
+     * the edits would be lost.
+     */
+    public async revertLastAppliedPatch(confirm: boolean = true) {
+        const transaction = this._lastTransaction;
+        if (!transaction || !transaction.committed) {
+            vscode.window.showInformationMessage('There is no applied patch to revert.');
+            return;
+        }
+
+        const fileCount = transaction.touchedFiles.length;
+        if (confirm) {
+            const choice = await vscode.window.showWarningMessage(
+                `Revert the last applied patch? This restores ${fileCount} file(s) to their state before the patch: ${transaction.label}`,
+                { modal: true }, "Revert"
+            );
+            if (choice !== "Revert") {
+                return;
+            }
+        }
+
+        try {
+            const changed = await transaction.changedSinceCommit();
+            if (changed.length > 0) {
+                const changedPaths = changed.map(uri => vscode.workspace.asRelativePath(uri)).join(', ');
+                if (this._prompts.nonInteractive) {
+                    vscode.window.showErrorMessage(`Not reverted, as these files were edited after the patch was applied: ${changedPaths}.`);
+                    return;
                 }
-            } else { // New file or Modification
-                await vscode.workspace.fs.writeFile(targetFileUri, new TextEncoder().encode(patchedContentResult));
-                vscode.window.showInformationMessage(`Patch successfully applied to ${vscode.workspace.asRelativePath(targetFileUri)} ('${displayFileName}').`);
-                
-                if (patchedContentResult !== '') { // Open if content is not empty
-                     const doc = await vscode.workspace.openTextDocument(targetFileUri);
-                     await vscode.window.showTextDocument(doc);
-                } else if (isNewFile && patchedContentResult === '') {
-                    vscode.window.showInformationMessage(`New file ${vscode.workspace.asRelativePath(targetFileUri)} ('${displayFileName}') was created empty by the patch.`);
+                const choice = await vscode.window.showWarningMessage(
+                    `These files were edited after the patch was applied: ${changedPaths}. Reverting the patch discards those edits.`,
+                    { modal: true }, "Revert Anyway"
+                );
+                if (choice !== "Revert Anyway") {
+                    return;
                 }
             }
-            return true;
-
+            await transaction.revert();
+            this._lastTransaction = undefined;
+            this._view?.webview.postMessage({ type: 'validationReport', report: undefined });
+            vscode.window.showInformationMessage(`Reverted last applied patch (${fileCount} file(s) restored).`);
         } catch (err) {
-            console.error(`Error applying patch to ${targetFileUri.fsPath} for '${displayFileName}':`, err);
-            const relativePath = vscode.workspace.asRelativePath(targetFileUri);
             const errorMessage = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Error applying patch to ${relativePath} ('${displayFileName}'): ${errorMessage}`);
-            return false;
+            vscode.window.showErrorMessage(`Error reverting last applied patch: ${errorMessage}`);
         }
     }
 
@@ -451,11 +895,23 @@ export class PatchApplyViewProvider implements vscode.WebviewViewProvider {
                 <title>Patch Apply</title>
             </head>
             <body>
+                <div id="inbox" hidden>
+                    <h3>Patch Inbox</h3>
+                    <div id="inbox-list"></div>
+                </div>
                 <h3>Paste Diff Text</h3>
-                <textarea id="diffInput" rows="10" placeholder="Paste your diff here (unified format)..."></textarea>
+                <textarea id="diffInput" rows="10" placeholder="Paste your diff here (unified format), or drop a .patch/.diff file..."></textarea>
+                <button id="loadPatchButton" class="secondary">Load Patch File...</button>
+                <div id="parse-status" class="notice"></div>
+                <div id="file-list"></div>
                 <button id="createDiffViewButton">Create Diff View(s)</button>
+                <button id="reviewHunksButton" style="margin-top: 8px;">Review Hunks</button>
+                <button id="reviewInlineButton" style="margin-top: 8px;">Review in Editor</button>
                 <button id="applyToFileButton" style="margin-top: 8px;">Apply Patch(es) to Target File(s)</button>
+                <button id="applyAndCommitButton" style="margin-top: 8px;">Apply and Commit</button>
                 <div id="error-message" class="error" style="margin-top: 8px;"></div>
+                <div id="repair-report" class="notice"></div>
+                <div id="validation-report" class="notice"></div>
 
                 <script nonce="${nonce}" src="${scriptUri}"></script>
             </body>
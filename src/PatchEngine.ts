@@ -0,0 +1,523 @@
+import * as vscode from 'vscode';
+import * as Diff from 'diff';
+import { compareLinesIgnoringWhitespace, locateHunks } from './diffRecovery';
+import { decodeTextFile, normalizeLineEndings, restoreLineEndings, TextFileFormat } from './fileEncoding';
+import { FileOperation, isBinaryPatch, ParsedFilePatch, patchHasChanges, patchOperation } from './gitPatch';
+import { applyHunksIndividually, applyHunksWithConflictMarkers, formatHunkHeader, formatRejectFile } from './hunkApply';
+import { detectInputFormat, fullFileToHunks, InputFormat } from './inputFormats';
+import { PlannedFileAction } from './PatchSafetyPolicy';
+import { HunkFailureResolution, HunkOutcome, isFileNotFoundError, PlannedFileChange } from './PatchTransaction';
+import { countChangedLines } from './patchSummary';
+import { patchSourcePath, TargetResolution, TargetResolver } from './TargetResolver';
+
+export interface PatchTarget {
+    uri: vscode.Uri;
+    /** Where the file ends up for renames and copies. */
+    destinationUri?: vscode.Uri;
+    isNewFile: boolean;
+    isDeletedFile: boolean;
+    displayFileName: string;
+}
+
+/** Why a patch was not applied. Returned instead of a result by the planning steps. */
+export class PatchRejection {
+    /**
+     * `unresolved` is set when no target file could be picked without asking; such patches are skipped.
+     * `cancelled` is set when the user cancelled a question about the file.
+     */
+    constructor(public readonly reason: string, public readonly unresolved: boolean = false, public readonly cancelled: boolean = false) {}
+}
+
+/** A file in the result of an apply, with the reason when it was not applied. */
+export interface PatchFileResult {
+    path: string;
+    operation?: FileOperation;
+    reason?: string;
+    /** Hunks that did not apply and were written as conflict markers or to a `.rej` file. */
+    failedHunks?: string[];
+}
+
+export type NotificationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * How the engine finds and reads files. The extension reads the workspace file
+ * system and open editors; tests can serve files from memory.
+ */
+export interface PatchFileSystem {
+    /** Roots that patch paths are resolved against, one per workspace folder. */
+    readonly folders: vscode.Uri[];
+    /** The type of what is at `uri`, or undefined if nothing is there. */
+    stat(uri: vscode.Uri): Promise<vscode.FileType | undefined>;
+    /** Files below the folders that match a glob pattern, leaving out `node_modules`. */
+    findFiles(include: string, maxResults: number): Promise<vscode.Uri[]>;
+    readFile(uri: vscode.Uri): Promise<Uint8Array>;
+    /** An editor with unsaved changes to the file. Its text is patched instead of the file on disk. */
+    findDirtyDocument(uri: vscode.Uri): vscode.TextDocument | undefined;
+}
+
+/**
+ * The decisions and messages the engine leaves to its host. The extension asks
+ * the user through the VS Code UI; tests answer from a script.
+ */
+export interface PatchPrompts {
+    /** When set, nothing is asked: unresolved targets are skipped and existing files are not overwritten. */
+    readonly nonInteractive: boolean;
+    notify(severity: NotificationSeverity, message: string): void;
+    reportRepairs(repairs: string[]): void;
+    /**
+     * Picks the target of a patch whose path matched several files or none.
+     * Returns undefined if the user cancelled.
+     */
+    chooseTarget(displayFileName: string, resolution: Exclude<TargetResolution, { kind: 'resolved' }>, isNewFile: boolean): Promise<vscode.Uri | undefined>;
+    confirmOverwrite(message: string): Promise<boolean>;
+    /** What to do with a file where only some hunks apply. */
+    chooseHunkFailureResolution(relativePath: string, failedCount: number, totalCount: number): Promise<HunkFailureResolution>;
+}
+
+export interface ParsedInput {
+    format: InputFormat;
+    patches: ParsedFilePatch[];
+    repairs: string[];
+    /** Why the input did not parse. `patches` is empty then. */
+    error?: string;
+}
+
+/** The outcome of planning a diff: the changes to write, and the files that will not be patched. */
+export interface PatchPlan {
+    changes: PlannedFileChange[];
+    /** One entry per planned patch. */
+    files: PatchFileResult[];
+    skipped: PatchFileResult[];
+    failed: PatchFileResult[];
+    /** True if the user cancelled a question about one of the files. */
+    cancelled: boolean;
+    /** Set when `beforeReading` refused the patch. */
+    error?: string;
+}
+
+export interface PlanOptions {
+    /** Targets already resolved by the caller, which are not resolved again. */
+    resolvedTargets?: Map<ParsedFilePatch, PatchTarget>;
+    /**
+     * Called with what the patch does to every target once all are resolved and
+     * before any is read. Returns the reason when the patch must not be applied.
+     */
+    beforeReading?(actions: PlannedFileAction[], label: string): Promise<string | undefined>;
+}
+
+/** Reads through `vscode.workspace.fs` and the open editors. */
+export const workspaceFileSystem: PatchFileSystem = {
+    get folders() {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+    },
+    async stat(uri) {
+        try {
+            return (await vscode.workspace.fs.stat(uri)).type;
+        } catch (e) {
+            if (isFileNotFoundError(e)) {
+                return undefined;
+            }
+            throw e;
+        }
+    },
+    async findFiles(include, maxResults) {
+        return vscode.workspace.findFiles(include, '**/node_modules/**', maxResults);
+    },
+    async readFile(uri) {
+        return vscode.workspace.fs.readFile(uri);
+    },
+    findDirtyDocument(uri) {
+        return vscode.workspace.textDocuments.find(document => document.isDirty && document.uri.toString() === uri.toString());
+    },
+};
+
+/**
+ * Parses diffs and works out, without writing anything, what applying them
+ * does to each file. It has no UI of its own: files are read through a
+ * {@link PatchFileSystem} and every question goes to {@link PatchPrompts}.
+ */
+export class PatchEngine {
+    constructor(
+        private readonly _fs: PatchFileSystem,
+        private readonly _prompts: PatchPrompts
+    ) {}
+
+    /**
+     * Parses text in whichever input format it is in: a unified diff (falling
+     * back to the recovery parser for LLM-produced diffs), SEARCH/REPLACE blocks
+     * or whole files with a path header.
+     */
+    public parse(rawDiffText: string): ParsedInput {
+        const format = detectInputFormat(rawDiffText);
+        try {
+            const { patches, repairs } = format.parse(rawDiffText);
+            return { format, patches, repairs };
+        } catch (e) {
+            return { format, patches: [], repairs: [], error: e instanceof Error ? e.message : String(e) };
+        }
+    }
+
+    /**
+     * Whole-file blocks don't say whether the file exists yet. Those whose path
+     * is not found in the workspace are turned into new-file patches.
+     */
+    public async markMissingFullFileTargetsAsNew(parsedPatches: ParsedFilePatch[]) {
+        for (const patch of parsedPatches) {
+            if (patch.fullContent === undefined || patchOperation(patch) === 'create') {
+                continue;
+            }
+            const relativePath = patch.newFileName.replace(/^b\//, '');
+            let exists = false;
+            for (const folder of this._fs.folders) {
+                if (await this.fileExists(vscode.Uri.joinPath(folder, relativePath))) {
+                    exists = true;
+                    break;
+                }
+            }
+            if (!exists) {
+                exists = (await this._fs.findFiles(`**/${relativePath}`, 1)).length > 0;
+            }
+            if (!exists) {
+                patch.oldFileName = '/dev/null';
+            }
+        }
+    }
+
+    /**
+     * Whole-file patches are turned into hunks against the target content, and
+     * hunks of a recovered patch, which only carry guessed positions, are placed
+     * by searching for their context in the target content before applying.
+     */
+    public prepareForApply(content: string, patch: ParsedFilePatch, displayFileName: string): { patch: ParsedFilePatch; options: Diff.ApplyPatchOptions } {
+        const options: Diff.ApplyPatchOptions = { fuzzFactor: 2 }; // Add a small fuzz factor for robustness
+        patch = fullFileToHunks(content, patch);
+        if (!patch.recovered) {
+            return { patch, options };
+        }
+        const placement = locateHunks(content, patch, displayFileName);
+        if (placement.repairs.length > 0) {
+            this._prompts.reportRepairs(placement.repairs);
+        }
+        if (placement.whitespaceInsensitive) {
+            options.compareLine = compareLinesIgnoringWhitespace;
+        }
+        return { patch: { ...patch, ...placement.patch }, options };
+    }
+
+    /**
+     * Resolves and plans every patch of a diff. Patches to the same file build
+     * on each other. Nothing is written: the caller commits `changes` when
+     * nothing failed.
+     */
+    public async plan(parsedPatches: ParsedFilePatch[], options: PlanOptions = {}): Promise<PatchPlan> {
+        const resolver = await TargetResolver.create(parsedPatches, this._fs);
+        const plannedChanges = new Map<string, PlannedFileChange>();
+        const files: PatchFileResult[] = [];
+        const failed: PatchFileResult[] = [];
+        const skipped: PatchFileResult[] = [];
+        let cancelled = false;
+        const targets: { patch: ParsedFilePatch; patchName: string; operation: FileOperation; target: PatchTarget }[] = [];
+
+        for (const patchObjectToApply of parsedPatches) {
+            const patchName = (patchObjectToApply.oldFileName || patchObjectToApply.newFileName || "unknown_file").replace(/^[ab]\//, '');
+            const operation = patchOperation(patchObjectToApply);
+            if (isBinaryPatch(patchObjectToApply)) {
+                this._prompts.notify('warning', `Skipping binary changes to '${patchName}'. Binary patches cannot be applied from a text diff.`);
+                skipped.push({ path: patchName, operation, reason: 'Binary patches cannot be applied from a text diff.' });
+                continue;
+            }
+            if (!patchHasChanges(patchObjectToApply)) {
+                this._prompts.notify('info', `Skipping patch for '${patchName}' as it has no content/hunks.`);
+                skipped.push({ path: patchName, operation, reason: 'The patch has no content/hunks.' });
+                continue;
+            }
+
+            try {
+                const target = options.resolvedTargets?.get(patchObjectToApply) ?? await this.resolveTarget(patchObjectToApply, resolver);
+                if (target instanceof PatchRejection) {
+                    cancelled ||= target.cancelled;
+                    (target.unresolved ? skipped : failed).push({ path: patchName, operation, reason: target.reason });
+                    continue;
+                }
+                targets.push({ patch: patchObjectToApply, patchName, operation, target });
+            } catch (err) { // Catch unexpected errors from resolveTarget itself
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                failed.push({ path: patchName, operation, reason: errorMessage });
+                this._prompts.notify('error', `Critical error while processing patch for '${patchName}': ${errorMessage}`);
+            }
+        }
+
+        if (options.beforeReading && failed.length === 0 && targets.length > 0) {
+            const actions: PlannedFileAction[] = targets.map(({ patch, operation, target }) => (
+                { uri: target.uri, destinationUri: target.destinationUri, operation, ...countChangedLines(patch) }
+            ));
+            const error = await options.beforeReading(actions, targets.map(({ target }) => target.displayFileName).join(', '));
+            if (error) {
+                const refused = targets.map(({ patchName, operation }) => ({ path: patchName, operation, reason: error }));
+                return { changes: [], files: [], skipped, failed: refused, cancelled, error };
+            }
+        }
+
+        for (const { patch: patchObjectToApply, patchName, operation, target } of targets) {
+            try {
+                const patchChanges = await this.planPatch(patchObjectToApply, target, plannedChanges);
+                if (patchChanges instanceof PatchRejection) {
+                    cancelled ||= patchChanges.cancelled;
+                    (patchChanges.unresolved ? skipped : failed).push({ path: patchName, operation, reason: patchChanges.reason });
+                    continue;
+                }
+                for (const change of patchChanges) {
+                    const earlierChange = plannedChanges.get(change.uri.toString());
+                    // A later patch to a file that an earlier one created still creates it.
+                    const kind = earlierChange?.kind === 'create' && change.kind === 'modify' ? 'create' : change.kind;
+                    plannedChanges.set(change.uri.toString(), { ...change, kind });
+                }
+                files.push({
+                    path: vscode.workspace.asRelativePath(patchChanges[0].uri),
+                    operation,
+                    failedHunks: patchChanges[0].hunkOutcome?.failed
+                });
+            } catch (err) { // Catch unexpected errors from planPatch itself
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                failed.push({ path: patchName, operation, reason: errorMessage });
+                this._prompts.notify('error', `Critical error while processing patch for '${patchName}': ${errorMessage}`);
+            }
+        }
+
+        return { changes: [...plannedChanges.values()], files, skipped, failed, cancelled };
+    }
+
+    /**
+     * Works out which workspace file a patch applies to. The host is only asked
+     * when several files match equally well or nothing matches, and never in
+     * non-interactive mode, where such patches are rejected as unresolved.
+     * Returns a rejection with the reason if no target was found or the user cancelled.
+     */
+    public async resolveTarget(patchObjectToApply: ParsedFilePatch, resolver: TargetResolver): Promise<PatchTarget | PatchRejection> {
+        const isNewFile = patchObjectToApply.oldFileName === 'a/dev/null' || patchObjectToApply.oldFileName === '/dev/null';
+        const isDeletedFile = patchObjectToApply.newFileName === 'b/dev/null' || patchObjectToApply.newFileName === '/dev/null';
+
+        const patchPath = patchSourcePath(patchObjectToApply);
+        if (!patchPath) {
+            return this.reject(`Could not determine a valid file name from patch: old='${patchObjectToApply.oldFileName}', new='${patchObjectToApply.newFileName}'. Skipping.`);
+        }
+        const displayFileName = resolver.relativePath(patchPath) ?? patchPath;
+
+        const resolution = isNewFile ? await resolver.resolveNew(patchPath) : await resolver.resolveExisting(patchPath);
+        let targetFileUri: vscode.Uri | undefined;
+        if (resolution.kind === 'resolved') {
+            targetFileUri = resolution.uri;
+        } else if (this._prompts.nonInteractive) {
+            const reason = resolution.kind === 'ambiguous'
+                ? `Skipped '${displayFileName}': ${resolution.candidates.length} files match (${resolution.candidates.map(candidate => vscode.workspace.asRelativePath(candidate.uri)).join(', ')}).`
+                : `Skipped '${displayFileName}': no matching file in the workspace.`;
+            return this.reject(reason, 'warning', true);
+        } else {
+            targetFileUri = await this._prompts.chooseTarget(displayFileName, resolution, isNewFile);
+            if (!targetFileUri) {
+                return this.cancel(`No file selected for '${displayFileName}'. Patch application cancelled for this file.`);
+            }
+        }
+
+        const operation = patchOperation(patchObjectToApply);
+        let destinationUri: vscode.Uri | undefined;
+        if ((operation === 'rename' || operation === 'copy') && patchObjectToApply.git?.newPath) {
+            const oldPath = resolver.relativePath(patchObjectToApply.oldFileName);
+            const newPath = resolver.relativePath(patchObjectToApply.newFileName) ?? patchObjectToApply.git.newPath;
+            destinationUri = this.resolveDestinationUri(targetFileUri, oldPath, newPath);
+        }
+        return { uri: targetFileUri, destinationUri, isNewFile, isDeletedFile, displayFileName };
+    }
+
+    /**
+     * Computes the file changes a patch makes to its resolved target without
+     * writing anything. Renames and copies produce a change for the
+     * destination too. Changes already planned for the same files in this run
+     * are passed in `pendingChanges`, so that several patches to one file build
+     * on each other. Returns a rejection with the reason if the patch cannot be
+     * applied or the user cancelled.
+     */
+    public async planPatch(
+        patchObjectToApply: ParsedFilePatch,
+        target: PatchTarget,
+        pendingChanges?: Map<string, PlannedFileChange>
+    ): Promise<PlannedFileChange[] | PatchRejection> {
+        const { uri: targetFileUri, destinationUri, isNewFile, isDeletedFile, displayFileName } = target;
+        const git = patchObjectToApply.git;
+        const mode = git?.newMode !== undefined && git.newMode !== git.oldMode ? git.newMode : undefined;
+
+        try {
+            let originalFileContent = '';
+            let fileFormat: TextFileFormat | undefined;
+            let dirtyDocument: vscode.TextDocument | undefined;
+
+            const fileType = await this._fs.stat(targetFileUri);
+            if (fileType === vscode.FileType.Directory) {
+                return this.reject(`Target path ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}' is a directory. Cannot apply patch.`);
+            }
+            const fileExists = fileType !== undefined;
+
+            if (isNewFile) {
+                if (fileExists) {
+                    const message = `Target file ${vscode.workspace.asRelativePath(targetFileUri)} for new file patch '${displayFileName}' already exists.`;
+                    if (this._prompts.nonInteractive) {
+                        return this.reject(message);
+                    }
+                    if (!await this._prompts.confirmOverwrite(`${message} Overwrite?`)) {
+                        return this.cancel(`Patch application for new file '${displayFileName}' cancelled due to existing file.`);
+                    }
+                }
+                originalFileContent = ''; // Patch is expected to create the full content
+            } else { // Modification or Deletion
+                const pendingChange = pendingChanges?.get(targetFileUri.toString());
+                if (!fileExists && !pendingChange) {
+                    return this.reject(`Target file ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}' not found. Cannot apply modification/deletion patch.`);
+                }
+                dirtyDocument = this._fs.findDirtyDocument(targetFileUri);
+                if (pendingChange && pendingChange.kind !== 'delete') {
+                    originalFileContent = pendingChange.newContent ?? '';
+                    fileFormat = pendingChange.format;
+                } else if (dirtyDocument) {
+                    // Patch what the user sees, not the stale copy on disk.
+                    originalFileContent = dirtyDocument.getText();
+                } else {
+                    const decoded = decodeTextFile(await this._fs.readFile(targetFileUri));
+                    originalFileContent = decoded.text;
+                    fileFormat = decoded.format;
+                }
+            }
+
+            const normalizedOriginalContent = normalizeLineEndings(originalFileContent);
+            const prepared = this.prepareForApply(normalizedOriginalContent, patchObjectToApply, displayFileName);
+            let patchedContentResult = Diff.applyPatch(normalizedOriginalContent, prepared.patch, prepared.options);
+            let hunkOutcome: HunkOutcome | undefined;
+            const rejectChanges: PlannedFileChange[] = [];
+
+            if (patchedContentResult === false && !isDeletedFile && prepared.patch.hunks.length > 0) {
+                const relativePath = vscode.workspace.asRelativePath(targetFileUri);
+                const partial = applyHunksIndividually(normalizedOriginalContent, prepared.patch, prepared.options);
+                const failedHunks = partial.hunkResults.filter(result => !result.applied);
+                const resolution = await this._prompts.chooseHunkFailureResolution(relativePath, failedHunks.length, partial.hunkResults.length);
+                if (resolution === 'conflictMarkers') {
+                    patchedContentResult = applyHunksWithConflictMarkers(normalizedOriginalContent, prepared.patch, prepared.options).content;
+                } else if (resolution === 'rejectFile') {
+                    patchedContentResult = partial.content;
+                    const rejectUri = (destinationUri ?? targetFileUri).with({ path: (destinationUri ?? targetFileUri).path + '.rej' });
+                    rejectChanges.push({
+                        uri: rejectUri,
+                        kind: 'create',
+                        displayFileName: vscode.workspace.asRelativePath(rejectUri),
+                        newContent: formatRejectFile(prepared.patch, failedHunks.map(result => result.hunk)),
+                        rejectFile: true
+                    });
+                }
+                if (resolution !== 'abort') {
+                    hunkOutcome = {
+                        applied: partial.hunkResults.length - failedHunks.length,
+                        failed: failedHunks.map(result => `#${result.index + 1} ${formatHunkHeader(result.hunk)}`),
+                        resolution
+                    };
+                }
+            }
+
+            if (patchedContentResult === false) {
+                return this.reject(
+                    `Failed to apply patch to ${vscode.workspace.asRelativePath(targetFileUri)} for '${displayFileName}'. ` +
+                    `File content might not match the patch's expected original state (even with fuzziness). ` +
+                    `Ensure the correct file is selected and it has not been modified too extensively.`
+                );
+            }
+            // Patching works on \n line endings; write the result back the way the file was stored.
+            const newContent = restoreLineEndings(originalFileContent, patchedContentResult);
+
+            if (destinationUri) {
+                const destinationPath = vscode.workspace.asRelativePath(destinationUri);
+                if (await this.fileExists(destinationUri)) {
+                    const message = `Destination ${destinationPath} of ${git?.operation} '${displayFileName}' already exists.`;
+                    if (this._prompts.nonInteractive) {
+                        return this.reject(message);
+                    }
+                    if (!await this._prompts.confirmOverwrite(`${message} Overwrite?`)) {
+                        return this.cancel(`Patch application for '${displayFileName}' cancelled due to existing destination file.`);
+                    }
+                }
+                const destinationChange: PlannedFileChange = {
+                    uri: destinationUri,
+                    kind: 'create',
+                    displayFileName: destinationPath,
+                    newContent,
+                    format: fileFormat,
+                    mode: mode ?? git?.oldMode,
+                    hunkOutcome
+                };
+                if (git?.operation === 'copy') {
+                    return [destinationChange, ...rejectChanges];
+                }
+                return [destinationChange, { uri: targetFileUri, kind: 'delete', displayFileName }, ...rejectChanges];
+            }
+
+            if (isDeletedFile) {
+                // A git deletion without hunks (e.g. from --irreversible-delete) carries no content to compare.
+                if (patchedContentResult.trim() === '' || patchObjectToApply.hunks.length === 0) {
+                    return [{ uri: targetFileUri, kind: 'delete', displayFileName }];
+                }
+                // If patch was for deletion but result is not empty, write the (unexpected) content.
+                this._prompts.notify('warning', `Patch for deleting ${vscode.workspace.asRelativePath(targetFileUri)} ('${displayFileName}') results in non-empty content. File will be updated instead of deleted.`);
+                return [{ uri: targetFileUri, kind: 'modify', displayFileName, newContent, format: fileFormat }];
+            }
+            return [{
+                uri: targetFileUri,
+                kind: isNewFile && !fileExists ? 'create' : 'modify',
+                displayFileName,
+                newContent,
+                format: fileFormat,
+                mode,
+                hunkOutcome,
+                document: dirtyDocument,
+                documentVersion: dirtyDocument?.version
+            }, ...rejectChanges];
+
+        } catch (err) {
+            const relativePath = vscode.workspace.asRelativePath(targetFileUri);
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            return this.reject(`Error applying patch to ${relativePath} ('${displayFileName}'): ${errorMessage}`);
+        }
+    }
+
+    /** Current text of a target with `\n` line endings, from its editor if it has unsaved changes. */
+    public async readTargetText(uri: vscode.Uri): Promise<string> {
+        const dirtyDocument = this._fs.findDirtyDocument(uri);
+        const text = dirtyDocument ? dirtyDocument.getText() : decodeTextFile(await this._fs.readFile(uri)).text;
+        return normalizeLineEndings(text);
+    }
+
+    public async fileExists(uri: vscode.Uri): Promise<boolean> {
+        return (await this._fs.stat(uri)) !== undefined;
+    }
+
+    /**
+     * Places the destination of a rename or copy relative to the resolved source,
+     * so that it lands in the same tree even if the source was found by a search.
+     */
+    private resolveDestinationUri(sourceUri: vscode.Uri, oldPath: string | undefined, newPath: string): vscode.Uri {
+        if (oldPath && sourceUri.path.endsWith('/' + oldPath)) {
+            const root = sourceUri.path.substring(0, sourceUri.path.length - oldPath.length);
+            return sourceUri.with({ path: root + newPath });
+        }
+        const workspaceFolder = this._fs.folders.find(folder => sourceUri.toString().startsWith(folder.toString() + '/')) ?? this._fs.folders[0];
+        if (workspaceFolder) {
+            return vscode.Uri.joinPath(workspaceFolder, newPath);
+        }
+        return vscode.Uri.joinPath(sourceUri, '..', newPath.split('/').pop() || newPath);
+    }
+
+    private reject(reason: string, severity: NotificationSeverity = 'error', unresolved: boolean = false): PatchRejection {
+        this._prompts.notify(severity, reason);
+        return new PatchRejection(reason, unresolved);
+    }
+
+    private cancel(reason: string): PatchRejection {
+        this._prompts.notify('info', reason);
+        return new PatchRejection(reason, false, true);
+    }
+}
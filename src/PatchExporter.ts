@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import * as Diff from 'diff';
+import { decodeTextFile, normalizeLineEndings } from './fileEncoding';
+import { getGitApi } from './gitExtension';
+import { hasFileOperation, reverseFilePatch } from './gitPatch';
+import { detectInputFormat } from './inputFormats';
+import { PatchApplyViewProvider } from './PatchApplyViewProvider';
+import { PatchHistoryEntry } from './PatchHistory';
+import { PendingChangesManager } from './PendingChangesManager';
+
+type PatchDestination = 'clipboard' | 'panel';
+
+/**
+ * Formats the difference between two versions of a file as a unified diff with
+ * `a/` and `b/` prefixed paths. Pass `undefined` for a side that does not exist
+ * to get a new-file or deleted-file diff. Returns an empty string if nothing changed.
+ */
+export function createUnifiedDiff(relativePath: string, oldText: string | undefined, newText: string | undefined, contextLines: number): string {
+    const oldContent = normalizeLineEndings(oldText ?? '');
+    const newContent = normalizeLineEndings(newText ?? '');
+    if (oldContent === newContent && (oldText === undefined) === (newText === undefined)) {
+        return '';
+    }
+    const patch = Diff.structuredPatch(
+        oldText === undefined ? '/dev/null' : `a/${relativePath}`,
+        newText === undefined ? '/dev/null' : `b/${relativePath}`,
+        oldContent, newContent, undefined, undefined, { context: contextLines }
+    );
+    return formatWithoutSeparator(patch);
+}
+
+/** `Diff.formatPatch` starts every file with a line of `=`, which `git apply` and most tools don't expect. */
+function formatWithoutSeparator(patch: Diff.StructuredPatch | Diff.StructuredPatch[]): string {
+    return Diff.formatPatch(patch).split('\n').filter(line => !/^=+$/.test(line)).join('\n');
+}
+
+/**
+ * Commands that produce diffs from the workspace, to send to reviewers or back
+ * to an LLM. The result is copied to the clipboard or loaded into the panel.
+ */
+export class PatchExporter {
+    constructor(
+        private readonly _provider: PatchApplyViewProvider,
+        private readonly _pendingChanges: PendingChangesManager
+    ) {}
+
+    /** Diff of the unsaved changes of a file against its content on disk. */
+    public async createPatchAgainstSaved(uri?: vscode.Uri) {
+        const document = await this.documentFor(uri);
+        if (!document) {
+            return;
+        }
+        if (!document.isDirty) {
+            vscode.window.showInformationMessage(`${vscode.workspace.asRelativePath(document.uri)} has no unsaved changes.`);
+            return;
+        }
+        const savedText = decodeTextFile(await vscode.workspace.fs.readFile(document.uri)).text;
+        await this.deliver(createUnifiedDiff(vscode.workspace.asRelativePath(document.uri, false), savedText, document.getText(), this.contextLines()));
+    }
+
+    /** Diff of a file against its version in git HEAD, unsaved changes included. */
+    public async createPatchAgainstHead(uri?: vscode.Uri) {
+        const document = await this.documentFor(uri);
+        if (!document) {
+            return;
+        }
+        const git = await getGitApi();
+        const repository = git?.getRepository(document.uri);
+        if (!git || !repository) {
+            vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(document.uri)} is not in a git repository, or the Git extension is disabled.`);
+            return;
+        }
+
+        let headText: string | undefined;
+        try {
+            headText = await repository.show('HEAD', document.uri.fsPath);
+        } catch {
+            headText = undefined; // Not committed yet: diff as a new file.
+        }
+        const relativePath = document.uri.path.substring(repository.rootUri.path.replace(/\/$/, '').length + 1);
+        await this.deliver(createUnifiedDiff(relativePath, headText, document.getText(), this.contextLines()));
+    }
+
+    /**
+     * Diff between two files. Called from the Explorer with the clicked file and
+     * the selection; asks for whichever of the two files is missing.
+     */
+    public async createPatchBetweenFiles(clickedUri?: vscode.Uri, selectedUris?: vscode.Uri[]) {
+        const uris = selectedUris && selectedUris.length > 0 ? [...selectedUris] : clickedUri ? [clickedUri] : [];
+        while (uris.length < 2) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: uris.length === 0 ? 'Select Original File' : 'Select Changed File',
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            uris.push(picked[0]);
+        }
+        if (uris.length > 2) {
+            vscode.window.showErrorMessage('Select exactly two files to create a patch between them.');
+            return;
+        }
+
+        const [oldUri, newUri] = uris;
+        const [oldText, newText] = await Promise.all([this.readText(oldUri), this.readText(newUri)]);
+        const oldPath = vscode.workspace.asRelativePath(oldUri, false);
+        const newPath = vscode.workspace.asRelativePath(newUri, false);
+        const patch = Diff.structuredPatch(`a/${oldPath}`, `b/${newPath}`, normalizeLineEndings(oldText), normalizeLineEndings(newText), undefined, undefined, { context: this.contextLines() });
+        await this.deliver(patch.hunks.length > 0 ? formatWithoutSeparator(patch) : '');
+    }
+
+    /** Diff of the hunks staged for inline review in a document. */
+    public async createPatchFromStagedChanges(uri?: vscode.Uri) {
+        const document = await this.documentFor(uri);
+        if (!document) {
+            return;
+        }
+        if (this._pendingChanges.hunks(document.uri).length === 0) {
+            vscode.window.showInformationMessage(`${vscode.workspace.asRelativePath(document.uri)} has no changes staged for review.`);
+            return;
+        }
+        const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+        await this.deliver(createUnifiedDiff(relativePath, this._pendingChanges.originalText(document), document.getText(), this.contextLines()));
+    }
+
+    /**
+     * The diff of a history entry as a clean unified diff, in the direction it was
+     * applied. Inputs that cannot be turned into one are given as they were pasted,
+     * and so are diffs with renames, copies, new or deleted files or mode changes,
+     * whose `diff --git` headers a unified diff cannot carry.
+     */
+    public async createPatchFromHistoryEntry(entry: PatchHistoryEntry) {
+        let diffText = entry.diffText;
+        try {
+            let { patches } = detectInputFormat(entry.diffText).parse(entry.diffText);
+            if (patches.some(hasFileOperation)) {
+                if (entry.reversed) {
+                    vscode.window.showInformationMessage('The patch renames, copies, creates or deletes files, or changes their mode, and was applied in reverse. It is exported as it was pasted, in the forward direction.');
+                }
+            } else if (patches.length > 0 && patches.every(patch => patch.fullContent === undefined && patch.hunks.length > 0)) {
+                if (entry.reversed) {
+                    patches = patches.map(reverseFilePatch).reverse();
+                }
+                diffText = formatWithoutSeparator(patches);
+            }
+        } catch {
+            // Keep the text as it was pasted.
+        }
+        await this.deliver(diffText);
+    }
+
+    private async deliver(diffText: string) {
+        if (!diffText.trim()) {
+            vscode.window.showInformationMessage('There are no differences to create a patch from.');
+            return;
+        }
+
+        let destination = vscode.workspace.getConfiguration('vscodepatchapply').get<PatchDestination | 'ask'>('createdPatchDestination', 'ask');
+        if (destination === 'ask') {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Copy to Clipboard', destination: 'clipboard' as const },
+                    { label: 'Load into Patch Apply Panel', destination: 'panel' as const },
+                ],
+                { placeHolder: 'Where should the patch go?' }
+            );
+            if (!choice) {
+                return;
+            }
+            destination = choice.destination;
+        }
+
+        if (destination === 'clipboard') {
+            await vscode.env.clipboard.writeText(diffText);
+            vscode.window.setStatusBarMessage('Patch copied to the clipboard.', 3000);
+        } else {
+            await this._provider.loadDiffText(diffText);
+        }
+    }
+
+    private async documentFor(uri?: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+        if (uri) {
+            return vscode.workspace.openTextDocument(uri);
+        }
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+            vscode.window.showErrorMessage('Open a file to create a patch from.');
+        }
+        return document;
+    }
+
+    private async readText(uri: vscode.Uri): Promise<string> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        return openDocument ? openDocument.getText() : decodeTextFile(await vscode.workspace.fs.readFile(uri)).text;
+    }
+
+    private contextLines(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('vscodepatchapply').get<number>('patchContextLines', 3));
+    }
+}
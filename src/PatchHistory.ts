@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { PatchApplyResult } from './PatchApplyViewProvider';
+
+export type PatchOutcome = 'applied' | 'partial' | 'failed';
+
+/** An applied (or attempted) patch, kept so it can be looked at, applied again or undone later. */
+export interface PatchHistoryEntry {
+    id: string;
+    /** Milliseconds since the epoch. */
+    timestamp: number;
+    /** The diff text as it was given. */
+    diffText: string;
+    /** True if the entry records the diff being applied in reverse. */
+    reversed: boolean;
+    outcome: PatchOutcome;
+    result: PatchApplyResult;
+}
+
+/** Whether a patch applied fully, only in part (some hunks failed), or not at all. */
+export function patchOutcome(result: PatchApplyResult): PatchOutcome {
+    return result.applied.length === 0 ? 'failed'
+        : result.applied.some(file => file.failedHunks?.length) ? 'partial' : 'applied';
+}
+
+const HISTORY_KEY = 'vscodepatchapply.history';
+const MAX_ENTRIES = 50;
+
+/**
+ * History of the patches applied in a workspace, newest first, stored in the
+ * workspace state so that it survives restarts.
+ */
+export class PatchHistory {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly _storage: vscode.Memento) {}
+
+    public get entries(): readonly PatchHistoryEntry[] {
+        return this._storage.get<PatchHistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    public async record(diffText: string, result: PatchApplyResult, reversed: boolean = false): Promise<PatchHistoryEntry> {
+        const outcome = patchOutcome(result);
+        const entry: PatchHistoryEntry = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+            timestamp: Date.now(),
+            diffText,
+            reversed,
+            outcome,
+            result,
+        };
+        await this._storage.update(HISTORY_KEY, [entry, ...this.entries].slice(0, MAX_ENTRIES));
+        this._onDidChange.fire();
+        return entry;
+    }
+
+    public async remove(id: string) {
+        await this._storage.update(HISTORY_KEY, this.entries.filter(entry => entry.id !== id));
+        this._onDidChange.fire();
+    }
+
+    public async clear() {
+        await this._storage.update(HISTORY_KEY, undefined);
+        this._onDidChange.fire();
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+    }
+}
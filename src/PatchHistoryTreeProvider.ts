@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { PatchFileResult } from './PatchEngine';
+import { PatchHistory, PatchHistoryEntry } from './PatchHistory';
+import { workspaceUriOfRelativePath } from './TargetResolver';
+
+export type HistoryNode =
+    | { kind: 'entry'; entry: PatchHistoryEntry }
+    | { kind: 'file'; entry: PatchHistoryEntry; file: PatchFileResult; status: 'applied' | 'skipped' | 'failed' };
+
+const OUTCOME_ICONS: Record<PatchHistoryEntry['outcome'], vscode.ThemeIcon> = {
+    applied: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    partial: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+};
+
+/** Tree view of the patch history. Each patch lists the files it touched. */
+export class PatchHistoryTreeProvider implements vscode.TreeDataProvider<HistoryNode> {
+    public static readonly viewType = 'vscodepatchapply.history';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<HistoryNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private readonly _historySubscription: vscode.Disposable;
+
+    constructor(private readonly _history: PatchHistory) {
+        this._historySubscription = _history.onDidChange(() => this._onDidChangeTreeData.fire(undefined));
+    }
+
+    public getChildren(element?: HistoryNode): HistoryNode[] {
+        if (!element) {
+            return this._history.entries.map(entry => ({ kind: 'entry', entry }));
+        }
+        if (element.kind === 'entry') {
+            const { result } = element.entry;
+            return [
+                ...result.applied.map(file => ({ kind: 'file' as const, entry: element.entry, file, status: 'applied' as const })),
+                ...result.failed.map(file => ({ kind: 'file' as const, entry: element.entry, file, status: 'failed' as const })),
+                ...result.skipped.map(file => ({ kind: 'file' as const, entry: element.entry, file, status: 'skipped' as const })),
+            ];
+        }
+        return [];
+    }
+
+    public getTreeItem(element: HistoryNode): vscode.TreeItem {
+        if (element.kind === 'entry') {
+            const { entry } = element;
+            const fileCount = entry.result.applied.length + entry.result.failed.length + entry.result.skipped.length;
+            const item = new vscode.TreeItem(new Date(entry.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = entry.id;
+            item.description = `${entry.reversed ? 'reversed · ' : ''}${entry.outcome} · ${fileCount} file(s)`;
+            item.tooltip = entry.result.error ?? [...entry.result.applied, ...entry.result.failed].map(file => file.path).join('\n');
+            item.iconPath = OUTCOME_ICONS[entry.outcome];
+            item.contextValue = 'historyEntry';
+            item.command = { command: 'vscodepatchapply.viewHistoryEntry', title: 'View Patch', arguments: [element] };
+            return item;
+        }
+
+        const { file, status } = element;
+        const item = new vscode.TreeItem(file.path, vscode.TreeItemCollapsibleState.None);
+        item.description = [status, file.operation !== 'modify' ? file.operation : undefined].filter(Boolean).join(' · ');
+        item.tooltip = file.reason ?? (file.failedHunks?.length ? `Hunks that did not apply: ${file.failedHunks.join(', ')}` : undefined);
+        item.iconPath = vscode.ThemeIcon.File;
+        item.resourceUri = workspaceUriOfRelativePath(file.path);
+        if (item.resourceUri) {
+            if (status === 'applied' && file.operation !== 'delete') {
+                item.command = { command: 'vscode.open', title: 'Open File', arguments: [item.resourceUri] };
+            }
+        }
+        return item;
+    }
+
+    public dispose() {
+        this._historySubscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import { decodeTextFile } from './fileEncoding';
+import { PatchApplyResult } from './PatchApplyViewProvider';
+import { patchOutcome, PatchOutcome } from './PatchHistory';
+import { isFileNotFoundError } from './PatchTransaction';
+
+/** A patch file waiting in the inbox. */
+export interface InboxPatch {
+    uri: vscode.Uri;
+    /** Path relative to the workspace, as shown in the panel. */
+    name: string;
+    /** Modification time of the file, in milliseconds since the epoch. The queue is ordered by it. */
+    queuedAt: number;
+}
+
+/**
+ * Written next to a processed patch file as `<file name>.result.json`, so that
+ * the tool that dropped the patch in can read the outcome. It is written after
+ * the patch file has been moved, so its presence means processing is done.
+ */
+export interface InboxResultFile {
+    /** Name of the patch file in the `applied` or `rejected` folder. */
+    patchFile: string;
+    status: PatchOutcome | 'rejected';
+    /** ISO 8601 time the patch was processed. */
+    processedAt: string;
+    /** Why the patch was rejected or failed. */
+    reason?: string;
+    /** What applying the patch did to each file. Not set for patches rejected without applying. */
+    result?: PatchApplyResult;
+}
+
+const PATCH_FILE_GLOB = '*.{patch,diff}';
+const PATCH_FILE_REGEX = /\.(patch|diff)$/i;
+
+/**
+ * Queues `.patch` and `.diff` files that other tools write to a folder of the
+ * workspace (`vscodepatchapply.patchInboxFolder`), while
+ * `vscodepatchapply.patchInbox` is on. Processed files are moved to the sibling
+ * folders `applied` and `rejected`, each with an {@link InboxResultFile}.
+ */
+export class PatchInbox implements vscode.Disposable {
+    private readonly _queue = new Map<string, InboxPatch>();
+    private readonly _processing = new Set<string>();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _watchers: vscode.Disposable[] = [];
+
+    constructor() {
+        this._disposables.push(
+            this._onDidChange,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('vscodepatchapply.patchInbox') || event.affectsConfiguration('vscodepatchapply.patchInboxFolder')) {
+                    this.watch();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch())
+        );
+        this.watch();
+    }
+
+    public get enabled(): boolean {
+        return vscode.workspace.getConfiguration('vscodepatchapply').get<boolean>('patchInbox', false);
+    }
+
+    /** The watched folder, relative to each workspace folder. */
+    public get folder(): string {
+        const folder = vscode.workspace.getConfiguration('vscodepatchapply').get<string>('patchInboxFolder', '.patches/incoming');
+        return folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '') || '.patches/incoming';
+    }
+
+    /** Queued patches, oldest first. */
+    public get patches(): InboxPatch[] {
+        return [...this._queue.values()].sort((a, b) => a.queuedAt - b.queuedAt);
+    }
+
+    public async read(uri: vscode.Uri): Promise<string> {
+        return decodeTextFile(await vscode.workspace.fs.readFile(uri)).text;
+    }
+
+    /**
+     * Marks a queued patch as being applied or rejected, so that it is not
+     * processed twice. Returns false if it is not queued or already taken.
+     */
+    public take(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        if (!this._queue.has(key) || this._processing.has(key)) {
+            return false;
+        }
+        this._processing.add(key);
+        return true;
+    }
+
+    /** Puts a patch taken with {@link take} back in the queue if it is still there. */
+    public release(uri: vscode.Uri) {
+        if (this._processing.delete(uri.toString())) {
+            this._onDidChange.fire();
+        }
+    }
+
+    /** Moves a patch that was applied to `applied`, or to `rejected` if nothing of it applied. */
+    public async complete(uri: vscode.Uri, result: PatchApplyResult) {
+        const status = patchOutcome(result);
+        const reason = status === 'failed'
+            ? result.error ?? result.failed.map(file => `${file.path}: ${file.reason ?? 'not applied'}`).join(' ')
+            : undefined;
+        await this.archive(uri, status === 'failed' ? 'rejected' : 'applied', { status, reason, result });
+    }
+
+    /** Moves a patch to `rejected` without applying it. */
+    public async reject(uri: vscode.Uri, reason: string = 'Rejected by the user.') {
+        await this.archive(uri, 'rejected', { status: 'rejected', reason });
+    }
+
+    public dispose() {
+        this._watchers.forEach(watcher => watcher.dispose());
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._queue.clear();
+    }
+
+    /** Starts watching the inbox of every workspace folder again, after the settings or folders changed. */
+    private watch() {
+        this._watchers.forEach(watcher => watcher.dispose());
+        this._watchers = [];
+        this._queue.clear();
+        this._processing.clear();
+        if (this.enabled) {
+            for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+                const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, `${this.folder}/${PATCH_FILE_GLOB}`));
+                this._watchers.push(
+                    watcher,
+                    watcher.onDidCreate(uri => this.add(uri)),
+                    // Tools may write a file in several steps; the panel re-reads it for the preview.
+                    watcher.onDidChange(uri => this.add(uri)),
+                    watcher.onDidDelete(uri => this.remove(uri))
+                );
+                this.addExisting(vscode.Uri.joinPath(workspaceFolder.uri, this.folder));
+            }
+        }
+        this._onDidChange.fire();
+    }
+
+    /** Queues the patches that were already in the inbox when watching started. */
+    private async addExisting(inboxUri: vscode.Uri) {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(inboxUri);
+        } catch (e) {
+            if (!isFileNotFoundError(e)) {
+                const errorMessage = e instanceof Error ? e.message : String(e);
+                vscode.window.showErrorMessage(`Could not read the patch inbox '${vscode.workspace.asRelativePath(inboxUri)}': ${errorMessage}`);
+            }
+            return;
+        }
+        for (const [name, type] of entries) {
+            if (type === vscode.FileType.File && PATCH_FILE_REGEX.test(name)) {
+                await this.add(vscode.Uri.joinPath(inboxUri, name));
+            }
+        }
+    }
+
+    private async add(uri: vscode.Uri) {
+        let queuedAt: number;
+        try {
+            queuedAt = (await vscode.workspace.fs.stat(uri)).mtime;
+        } catch {
+            return; // Gone again, e.g. moved away by another tool.
+        }
+        this._queue.set(uri.toString(), { uri, name: vscode.workspace.asRelativePath(uri), queuedAt });
+        this._onDidChange.fire();
+    }
+
+    private remove(uri: vscode.Uri) {
+        if (this._queue.delete(uri.toString())) {
+            this._processing.delete(uri.toString());
+            this._onDidChange.fire();
+        }
+    }
+
+    private async archive(uri: vscode.Uri, folderName: 'applied' | 'rejected', outcome: Omit<InboxResultFile, 'patchFile' | 'processedAt'>) {
+        try {
+            const folderUri = vscode.Uri.joinPath(uri, '..', '..', folderName);
+            await vscode.workspace.fs.createDirectory(folderUri);
+            const fileName = uri.path.split('/').pop()!;
+            let destinationUri = vscode.Uri.joinPath(folderUri, fileName);
+            if (await exists(destinationUri)) {
+                // Tools often reuse names; earlier results are kept.
+                destinationUri = vscode.Uri.joinPath(folderUri, fileName.replace(PATCH_FILE_REGEX, `-${Date.now()}.$1`));
+            }
+            await vscode.workspace.fs.rename(uri, destinationUri);
+
+            const resultFile: InboxResultFile = {
+                patchFile: destinationUri.path.split('/').pop()!,
+                processedAt: new Date().toISOString(),
+                ...outcome,
+            };
+            await vscode.workspace.fs.writeFile(
+                destinationUri.with({ path: `${destinationUri.path}.result.json` }),
+                new TextEncoder().encode(JSON.stringify(resultFile, undefined, 4) + '\n')
+            );
+            this.remove(uri);
+        } catch (e) {
+            // The patch stays queued, so that it can be dealt with again.
+            this._processing.delete(uri.toString());
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Could not move '${vscode.workspace.asRelativePath(uri)}' out of the patch inbox: ${errorMessage}`);
+        }
+    }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
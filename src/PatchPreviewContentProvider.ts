@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+
+/**
+ * Serves the patched version of workspace files as read-only documents for the
+ * diff preview. Preview URIs keep the path of the real file, so VS Code picks
+ * the same language mode for them as for the file itself.
+ */
+export class PatchPreviewContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'patch-preview';
+
+    private readonly _contents = new Map<string, string>();
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * Registers `content` as one side of the preview of `targetUri` and returns
+     * the URI to open it with.
+     */
+    public setPreview(targetUri: vscode.Uri, content: string, side: 'original' | 'patched' = 'patched'): vscode.Uri {
+        const previewUri = vscode.Uri.from({
+            scheme: PatchPreviewContentProvider.scheme,
+            path: targetUri.path,
+            query: `side=${side}&target=${encodeURIComponent(targetUri.toString())}`,
+        });
+        this._contents.set(previewUri.toString(), content);
+        this._onDidChange.fire(previewUri);
+        return previewUri;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._contents.get(uri.toString()) ?? '';
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+        this._contents.clear();
+    }
+}
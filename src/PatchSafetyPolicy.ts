@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { FileOperation } from './gitPatch';
+
+/** What a patch is about to do to one file, as listed in the confirmation. */
+export interface PlannedFileAction {
+    uri: vscode.Uri;
+    /** Where the file ends up, for renames and copies. */
+    destinationUri?: vscode.Uri;
+    operation: FileOperation;
+    additions: number;
+    deletions: number;
+}
+
+const OPERATION_VERBS: Record<FileOperation, string> = {
+    modify: 'Modify',
+    create: 'Create',
+    delete: 'Delete',
+    rename: 'Rename',
+    copy: 'Copy',
+};
+
+/**
+ * Guards against patches that write where they should not, which matters for
+ * pasted LLM output. Files outside the workspace are never written unless
+ * `vscodepatchapply.allowWritesOutsideWorkspace` is set. Protected paths and
+ * patches over the size limits are only applied after a confirmation that
+ * lists everything the patch is about to do.
+ */
+export class PatchSafetyPolicy {
+    /**
+     * Checks what a patch is about to do against the policy, asking for
+     * confirmation when needed. Runs before any target is read or stashed.
+     * Returns the reason when the patch must not be applied.
+     */
+    public async check(actions: PlannedFileAction[], nonInteractive: boolean): Promise<string | undefined> {
+        const configuration = vscode.workspace.getConfiguration('vscodepatchapply');
+        const uris = actions.flatMap(action => action.destinationUri ? [action.uri, action.destinationUri] : [action.uri]);
+
+        if (!configuration.get<boolean>('allowWritesOutsideWorkspace', false)) {
+            const outside = uris.filter(uri => !vscode.workspace.getWorkspaceFolder(uri));
+            if (outside.length > 0) {
+                const reason = `Not applied because the patch writes outside the workspace: ${outside.map(uri => uri.fsPath).join(', ')}.`;
+                vscode.window.showErrorMessage(`${reason} Set "vscodepatchapply.allowWritesOutsideWorkspace" to allow this.`);
+                return reason;
+            }
+        }
+
+        const violations: string[] = [];
+        const protectedPatterns = configuration.get<string[]>('protectedPaths', []).map(glob => ({ glob, pattern: globToRegExp(glob) }));
+        for (const uri of uris) {
+            const relativePath = vscode.workspace.asRelativePath(uri, false);
+            const match = protectedPatterns.find(({ pattern }) => pattern.test(relativePath));
+            if (match) {
+                violations.push(`${relativePath} is protected (${match.glob}).`);
+            }
+        }
+
+        const maxFiles = configuration.get<number>('maxFilesPerPatch', 0);
+        if (maxFiles > 0 && actions.length > maxFiles) {
+            violations.push(`The patch changes ${actions.length} files, more than the limit of ${maxFiles}.`);
+        }
+        const maxChangedLines = configuration.get<number>('maxChangedLinesPerPatch', 0);
+        const changedLines = actions.reduce((total, action) => total + action.additions + action.deletions, 0);
+        if (maxChangedLines > 0 && changedLines > maxChangedLines) {
+            violations.push(`The patch changes ${changedLines} lines, more than the limit of ${maxChangedLines}.`);
+        }
+        const maxDeletedFiles = configuration.get<number>('maxDeletedFilesPerPatch', 0);
+        const deletedFiles = actions.filter(action => action.operation === 'delete').length;
+        if (maxDeletedFiles > 0 && deletedFiles > maxDeletedFiles) {
+            violations.push(`The patch deletes ${deletedFiles} files, more than the limit of ${maxDeletedFiles}.`);
+        }
+
+        if (violations.length === 0) {
+            return undefined;
+        }
+        const reason = `The patch breaks the safety policy: ${violations.join(' ')}`;
+        if (nonInteractive) {
+            vscode.window.showErrorMessage(`Not applied. ${reason}`);
+            return reason;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            'The patch breaks the safety policy. Apply it anyway?',
+            { modal: true, detail: `${violations.join('\n')}\n\nThe patch will:\n${actions.map(describeAction).join('\n')}` },
+            'Apply Anyway'
+        );
+        return choice === 'Apply Anyway' ? undefined : reason;
+    }
+}
+
+function describeAction(action: PlannedFileAction): string {
+    const path = vscode.workspace.asRelativePath(action.uri);
+    const destination = action.destinationUri ? ` to ${vscode.workspace.asRelativePath(action.destinationUri)}` : '';
+    const lines = action.additions + action.deletions > 0 ? ` (+${action.additions} −${action.deletions})` : '';
+    return `${OPERATION_VERBS[action.operation]} ${path}${destination}${lines}`;
+}
+
+/**
+ * Turns a glob into a regular expression matched against workspace-relative
+ * paths. Supports `*`, `?`, `**` for any number of directories, and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            const directories = glob[i + 2] === '/';
+            source += directories ? '(?:.*/)?' : '.*';
+            i += directories ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { promises as fsPromises } from 'fs';
+import { encodeTextFile, TextFileFormat } from './fileEncoding';
+import { computeLineReplacements } from './hunkApply';
+
+export type FileChangeKind = 'create' | 'modify' | 'delete';
+
+export type HunkFailureResolution = 'conflictMarkers' | 'rejectFile' | 'abort';
+
+/** Per-hunk result for a file that was only partly patched. */
+export interface HunkOutcome {
+    applied: number;
+    /** Descriptions of the hunks that did not apply. */
+    failed: string[];
+    resolution: Exclude<HunkFailureResolution, 'abort'>;
+}
+
+/**
+ * A file change computed by a dry run of a patch. Nothing is written until the
+ * change is committed through a {@link PatchTransaction}.
+ */
+export interface PlannedFileChange {
+    uri: vscode.Uri;
+    kind: FileChangeKind;
+    displayFileName: string;
+    /** Patched content of the file, with the file's own line endings. Undefined for deletions. */
+    newContent?: string;
+    /** Encoding and BOM to write the content with. UTF-8 without BOM if not set. */
+    format?: TextFileFormat;
+    /** Git file mode to set after writing, e.g. `100755`. Only applied to files on disk. */
+    mode?: string;
+    /** Set when some hunks did not apply and were turned into conflict markers or a `.rej` file. */
+    hunkOutcome?: HunkOutcome;
+    /** Set for the `.rej` file that holds the hunks of another file that did not apply. */
+    rejectFile?: boolean;
+    /**
+     * Set for files open in an editor with unsaved changes. The change is then made
+     * to the editor buffer as an undoable edit instead of to the file on disk.
+     */
+    document?: vscode.TextDocument;
+    /** Version of `document` the change was computed from. */
+    documentVersion?: number;
+}
+
+interface FileSnapshot {
+    uri: vscode.Uri;
+    existed: boolean;
+    content?: Uint8Array;
+    mode?: number;
+    /** Text of the editor buffer, for changes made to an open document. */
+    documentText?: string;
+    /** Parent directories that did not exist before a new file was written, deepest first. */
+    missingDirectories?: vscode.Uri[];
+    /** What the transaction left in the file, or in the editor buffer for open documents. Undefined for deletions. */
+    written?: Uint8Array | string;
+}
+
+export function isFileNotFoundError(e: unknown): boolean {
+    if (typeof e !== 'object' || e === null) {
+        return false;
+    }
+    return ('code' in e && (e.code === 'FileNotFound' || e.code === 'ENOENT'))
+        || ('name' in e && e.name === 'EntryNotFound');
+}
+
+/**
+ * Writes a set of planned file changes as one unit. The previous state of every
+ * touched file is journaled before it is written, so a failure part-way through
+ * rolls everything back, and a committed transaction can be reverted later.
+ * What was written is kept too, so that edits made since can be detected
+ * before a revert overwrites them.
+ */
+export class PatchTransaction {
+    private readonly _snapshots: FileSnapshot[] = [];
+    private _committed = false;
+
+    constructor(public readonly label: string) {}
+
+    public get committed(): boolean {
+        return this._committed;
+    }
+
+    public get touchedFiles(): vscode.Uri[] {
+        return this._snapshots.map(snapshot => snapshot.uri);
+    }
+
+    public async commit(changes: PlannedFileChange[]): Promise<void> {
+        if (this._committed) {
+            throw new Error(`Transaction '${this.label}' has already been committed.`);
+        }
+
+        // Snapshot everything first so the rollback never depends on a half-written state.
+        for (const change of changes) {
+            this._snapshots.push(await this.takeSnapshot(change));
+        }
+
+        try {
+            for (const [index, change] of changes.entries()) {
+                if (change.kind === 'delete') {
+                    await vscode.workspace.fs.delete(change.uri);
+                } else if (change.document) {
+                    if (change.document.version !== change.documentVersion) {
+                        throw new Error(`${change.displayFileName} was edited while the patch was being prepared.`);
+                    }
+                    await replaceDocumentText(change.document, change.newContent ?? '');
+                    this._snapshots[index].written = change.document.getText();
+                } else {
+                    const content = encodeTextFile(change.newContent ?? '', change.format);
+                    await vscode.workspace.fs.writeFile(change.uri, content);
+                    this._snapshots[index].written = content;
+                    if (change.mode && change.uri.scheme === 'file') {
+                        await fsPromises.chmod(change.uri.fsPath, parseInt(change.mode, 8) & 0o777);
+                    }
+                }
+            }
+        } catch (err) {
+            await this.restoreSnapshots();
+            this._snapshots.length = 0;
+            throw err;
+        }
+        this._committed = true;
+    }
+
+    /** The touched files that were edited since the commit, whose edits a revert would overwrite. */
+    public async changedSinceCommit(): Promise<vscode.Uri[]> {
+        const changed: vscode.Uri[] = [];
+        for (const snapshot of this._snapshots) {
+            if (!sameContent(await this.currentContent(snapshot), snapshot.written)) {
+                changed.push(snapshot.uri);
+            }
+        }
+        return changed;
+    }
+
+    /** Takes the current content of the touched files as written by the transaction, e.g. after they were formatted. */
+    public async updateWrittenContent(): Promise<void> {
+        for (const snapshot of this._snapshots) {
+            snapshot.written = await this.currentContent(snapshot);
+        }
+    }
+
+    public async revert(): Promise<void> {
+        if (!this._committed) {
+            throw new Error(`Transaction '${this.label}' has not been committed.`);
+        }
+        await this.restoreSnapshots();
+        this._committed = false;
+    }
+
+    private async takeSnapshot(change: PlannedFileChange): Promise<FileSnapshot> {
+        const uri = change.uri;
+        if (change.document && change.kind !== 'delete') {
+            return { uri, existed: true, documentText: change.document.getText() };
+        }
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            const mode = uri.scheme === 'file' ? (await fsPromises.stat(uri.fsPath)).mode & 0o777 : undefined;
+            return { uri, existed: true, content, mode };
+        } catch (e) {
+            if (isFileNotFoundError(e)) {
+                return { uri, existed: false, missingDirectories: await findMissingDirectories(uri) };
+            }
+            throw e;
+        }
+    }
+
+    /** The text of the editor for changes made to a document, otherwise the file on disk or its unsaved editor. */
+    private async currentContent(snapshot: FileSnapshot): Promise<Uint8Array | string | undefined> {
+        if (snapshot.documentText !== undefined) {
+            return (await vscode.workspace.openTextDocument(snapshot.uri)).getText();
+        }
+        const dirtyDocument = vscode.workspace.textDocuments.find(document => document.isDirty && document.uri.toString() === snapshot.uri.toString());
+        if (dirtyDocument) {
+            return dirtyDocument.getText();
+        }
+        try {
+            return await vscode.workspace.fs.readFile(snapshot.uri);
+        } catch (e) {
+            if (isFileNotFoundError(e)) {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    private async restoreSnapshots(): Promise<void> {
+        const failures: string[] = [];
+        for (const snapshot of [...this._snapshots].reverse()) {
+            try {
+                if (snapshot.documentText !== undefined) {
+                    await replaceDocumentText(await vscode.workspace.openTextDocument(snapshot.uri), snapshot.documentText);
+                } else if (snapshot.existed && snapshot.content) {
+                    await vscode.workspace.fs.writeFile(snapshot.uri, snapshot.content);
+                    if (snapshot.mode !== undefined) {
+                        await fsPromises.chmod(snapshot.uri.fsPath, snapshot.mode);
+                    }
+                } else {
+                    try {
+                        await vscode.workspace.fs.delete(snapshot.uri);
+                    } catch (e) {
+                        if (!isFileNotFoundError(e)) {
+                            throw e;
+                        }
+                    }
+                    await deleteEmptyDirectories(snapshot.missingDirectories ?? []);
+                }
+            } catch (e) {
+                const errorMessage = e instanceof Error ? e.message : String(e);
+                failures.push(`${vscode.workspace.asRelativePath(snapshot.uri)}: ${errorMessage}`);
+            }
+        }
+        if (failures.length > 0) {
+            throw new Error(`Could not restore ${failures.length} file(s): ${failures.join('; ')}`);
+        }
+    }
+}
+
+function sameContent(a: Uint8Array | string | undefined, b: Uint8Array | string | undefined): boolean {
+    if (a instanceof Uint8Array && b instanceof Uint8Array) {
+        return Buffer.from(a.buffer, a.byteOffset, a.byteLength).equals(b);
+    }
+    return a === b;
+}
+
+/** The parent directories of `uri` that do not exist, deepest first. Writing the file creates them. */
+async function findMissingDirectories(uri: vscode.Uri): Promise<vscode.Uri[]> {
+    const missing: vscode.Uri[] = [];
+    let directory = vscode.Uri.joinPath(uri, '..');
+    while (directory.path !== uri.path) {
+        try {
+            await vscode.workspace.fs.stat(directory);
+            break;
+        } catch (e) {
+            if (!isFileNotFoundError(e)) {
+                throw e;
+            }
+        }
+        missing.push(directory);
+        uri = directory;
+        directory = vscode.Uri.joinPath(directory, '..');
+    }
+    return missing;
+}
+
+/**
+ * Deletes the directories that writing a new file created, deepest first. A
+ * directory that is not empty is kept together with its parents, as other
+ * files are still in it.
+ */
+async function deleteEmptyDirectories(directories: vscode.Uri[]): Promise<void> {
+    for (const directory of directories) {
+        try {
+            if ((await vscode.workspace.fs.readDirectory(directory)).length > 0) {
+                return;
+            }
+            await vscode.workspace.fs.delete(directory);
+        } catch (e) {
+            if (!isFileNotFoundError(e)) {
+                throw e;
+            }
+        }
+    }
+}
+
+/** Edits a document into `text` with one edit per changed region, so that undo and cursors behave. */
+export async function replaceDocumentText(document: vscode.TextDocument, text: string): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of computeLineReplacements(document.getText(), text)) {
+        edit.replace(document.uri, new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)), replacement.text);
+    }
+    if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error(`Could not edit ${vscode.workspace.asRelativePath(document.uri)} in its editor.`);
+    }
+}
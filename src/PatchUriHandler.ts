@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { decodeTextFile } from './fileEncoding';
+import { detectInputFormat } from './inputFormats';
+import { PatchApplyViewProvider } from './PatchApplyViewProvider';
+
+/**
+ * Handles `vscode://sc20ka.vscodepatchapply/apply?diff=...` and `/preview` links,
+ * so that other tools can hand a diff to the extension. The diff is given in the
+ * `diff` query parameter or as a `file` path, absolute or relative to the first
+ * workspace folder. Links come from outside the editor, so applying always asks first.
+ */
+export class PatchUriHandler implements vscode.UriHandler {
+    constructor(private readonly _provider: PatchApplyViewProvider) {}
+
+    public async handleUri(uri: vscode.Uri): Promise<void> {
+        const action = uri.path.replace(/^\/+|\/+$/g, '');
+        if (action !== 'apply' && action !== 'preview') {
+            vscode.window.showErrorMessage(`Unknown Patch Apply link '${uri.path}'. Use /apply or /preview.`);
+            return;
+        }
+
+        const diffText = await this.readDiff(new URLSearchParams(uri.query));
+        if (diffText === undefined) {
+            return;
+        }
+
+        if (action === 'preview') {
+            await this._provider.previewDiff(diffText);
+            return;
+        }
+
+        const targetFiles = listTargetFiles(diffText);
+        const confirmation = await vscode.window.showWarningMessage(
+            'A link wants to apply a patch to your workspace.',
+            {
+                modal: true,
+                detail: targetFiles.length > 0
+                    ? `Files that will be changed:\n${targetFiles.join('\n')}`
+                    : 'The files the patch changes could not be determined.',
+            },
+            "Apply"
+        );
+        if (confirmation !== "Apply") {
+            return;
+        }
+        await this._provider.applyAllPatchesToFiles(diffText);
+    }
+
+    private async readDiff(query: URLSearchParams): Promise<string | undefined> {
+        const diffParam = query.get('diff');
+        if (diffParam) {
+            return diffParam;
+        }
+
+        const fileParam = query.get('file');
+        if (!fileParam) {
+            vscode.window.showErrorMessage("Patch Apply link has neither a 'diff' nor a 'file' parameter.");
+            return undefined;
+        }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const isAbsolute = fileParam.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(fileParam);
+        if (!isAbsolute && !workspaceFolder) {
+            vscode.window.showErrorMessage(`Cannot resolve relative patch file '${fileParam}' without an open workspace folder.`);
+            return undefined;
+        }
+        const fileUri = isAbsolute ? vscode.Uri.file(fileParam) : vscode.Uri.joinPath(workspaceFolder!.uri, fileParam);
+        try {
+            return decodeTextFile(await vscode.workspace.fs.readFile(fileUri)).text;
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Could not read patch file '${fileParam}': ${errorMessage}`);
+            return undefined;
+        }
+    }
+}
+
+function listTargetFiles(diffText: string): string[] {
+    try {
+        const { patches } = detectInputFormat(diffText).parse(diffText);
+        const paths = patches.map(patch => {
+            const fileName = patch.newFileName && patch.newFileName !== '/dev/null' ? patch.newFileName : patch.oldFileName;
+            return (fileName ?? '').replace(/^[ab]\//, '');
+        });
+        return [...new Set(paths.filter(Boolean))];
+    } catch {
+        return [];
+    }
+}
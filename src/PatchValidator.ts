@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import { exec } from 'child_process';
+import { PlannedFileChange } from './PatchTransaction';
+
+/** How long to wait for language servers to report on the patched files. */
+const DIAGNOSTICS_TIMEOUT_MS = 5000;
+/** Diagnostics are taken as final once they have not changed for this long. */
+const DIAGNOSTICS_SETTLE_MS = 1000;
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_DETAIL_LINES = 20;
+
+export interface ValidationStep {
+    name: string;
+    passed: boolean;
+    /** What went wrong, or what was done for steps that passed. */
+    details?: string;
+}
+
+export interface ValidationReport {
+    passed: boolean;
+    steps: ValidationStep[];
+}
+
+/**
+ * Errors reported for each file before a patch was applied, keyed by URI. Files
+ * whose errors could not be taken are missing, and are not checked afterwards.
+ */
+export type DiagnosticsSnapshot = Map<string, vscode.Diagnostic[]>;
+
+/**
+ * Checks the result of an apply, as configured in the settings: formats the
+ * patched files, looks for errors the patch introduced, and runs a task or a
+ * shell command such as `npm test`.
+ */
+export class PatchValidator {
+    /**
+     * Takes the errors of the files about to be patched, to tell new errors from
+     * old ones later. Diagnostics are only computed for open documents, so files
+     * that are not open yet are opened and their first diagnostics waited for.
+     */
+    public async snapshotDiagnostics(changes: PlannedFileChange[]): Promise<DiagnosticsSnapshot> {
+        const snapshot: DiagnosticsSnapshot = new Map();
+        if (!this.configuration().get<boolean>('checkDiagnosticsAfterApply', false)) {
+            return snapshot;
+        }
+        const openUris = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+        const existing = changes.filter(change => change.kind !== 'create');
+        const toOpen = existing.filter(change => !openUris.has(change.uri.toString())).map(change => change.uri);
+        const opened: vscode.Uri[] = [];
+        if (toOpen.length > 0) {
+            const diagnosticsReported = waitForDiagnostics(toOpen);
+            for (const uri of toOpen) {
+                try {
+                    await vscode.workspace.openTextDocument(uri);
+                    opened.push(uri);
+                } catch {
+                    // Not a text file: its errors are unknown.
+                }
+            }
+            await diagnosticsReported;
+        }
+        for (const change of changes) {
+            if (change.kind === 'create') {
+                snapshot.set(change.uri.toString(), []);
+            } else if (openUris.has(change.uri.toString()) || opened.some(uri => uri.toString() === change.uri.toString())) {
+                snapshot.set(change.uri.toString(), errorsOf(change.uri));
+            }
+        }
+        return snapshot;
+    }
+
+    /** Runs the configured checks. Returns undefined when none is configured. */
+    public async validate(changes: PlannedFileChange[], diagnosticsBefore: DiagnosticsSnapshot): Promise<ValidationReport | undefined> {
+        const configuration = this.configuration();
+        const format = configuration.get<boolean>('formatAfterApply', false);
+        const checkDiagnostics = configuration.get<boolean>('checkDiagnosticsAfterApply', false);
+        const taskName = configuration.get<string>('validationTask', '').trim();
+        const command = configuration.get<string>('validationCommand', '').trim();
+        if (!format && !checkDiagnostics && !taskName && !command) {
+            return undefined;
+        }
+
+        const files = changes.filter(change => change.kind !== 'delete');
+        return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Validating the patch' }, async progress => {
+            const steps: ValidationStep[] = [];
+            if (format) {
+                progress.report({ message: 'formatting' });
+                steps.push(await this.formatFiles(files));
+            }
+            if (checkDiagnostics) {
+                progress.report({ message: 'waiting for diagnostics' });
+                steps.push(await this.checkDiagnostics(files.map(change => change.uri), diagnosticsBefore));
+            }
+            if (taskName) {
+                progress.report({ message: `running task '${taskName}'` });
+                steps.push(await this.runTask(taskName));
+            }
+            if (command) {
+                progress.report({ message: `running '${command}'` });
+                steps.push(await this.runCommand(command, changes[0]?.uri));
+            }
+            return { passed: steps.every(step => step.passed), steps };
+        });
+    }
+
+    /**
+     * Runs the document formatter on each file, as Format Document does. Files the
+     * patch wrote to disk are saved again; editors that had unsaved changes are
+     * left unsaved.
+     */
+    private async formatFiles(changes: PlannedFileChange[]): Promise<ValidationStep> {
+        const formatted: string[] = [];
+        const failures: string[] = [];
+        for (const change of changes) {
+            try {
+                const document = await vscode.workspace.openTextDocument(change.uri);
+                const editorConfiguration = vscode.workspace.getConfiguration('editor', document);
+                const edits = await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+                    'vscode.executeFormatDocumentProvider', change.uri,
+                    { tabSize: editorConfiguration.get<number>('tabSize', 4), insertSpaces: editorConfiguration.get<boolean>('insertSpaces', true) }
+                );
+                if (!edits || edits.length === 0) {
+                    continue;
+                }
+                const edit = new vscode.WorkspaceEdit();
+                edit.set(change.uri, edits);
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    throw new Error('the formatting edits could not be applied');
+                }
+                if (!change.document) {
+                    await document.save();
+                }
+                formatted.push(change.displayFileName);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                failures.push(`${change.displayFileName}: ${errorMessage}`);
+            }
+        }
+        if (failures.length > 0) {
+            return { name: 'Format', passed: false, details: failures.join('\n') };
+        }
+        return { name: 'Format', passed: true, details: formatted.length > 0 ? `Formatted ${formatted.join(', ')}.` : 'Nothing to format.' };
+    }
+
+    /** Compares the errors of the patched files with those they had before the patch. */
+    private async checkDiagnostics(allUris: vscode.Uri[], diagnosticsBefore: DiagnosticsSnapshot): Promise<ValidationStep> {
+        // Without the errors from before, old errors cannot be told from new ones.
+        const uris = allUris.filter(uri => diagnosticsBefore.has(uri.toString()));
+        const unchecked = allUris.length - uris.length;
+        const uncheckedNote = unchecked > 0 ? ` ${unchecked} file(s) were not checked, as their errors before the patch are unknown.` : '';
+
+        // Diagnostics are only computed for open documents.
+        const diagnosticsReported = waitForDiagnostics(uris);
+        for (const uri of uris) {
+            await vscode.workspace.openTextDocument(uri);
+        }
+        await diagnosticsReported;
+
+        const introduced: string[] = [];
+        for (const uri of uris) {
+            // Errors are matched by message rather than position, as the patch moves lines around.
+            const remaining = new Map<string, number>();
+            for (const diagnostic of diagnosticsBefore.get(uri.toString())!) {
+                const key = diagnosticKey(diagnostic);
+                remaining.set(key, (remaining.get(key) ?? 0) + 1);
+            }
+            for (const diagnostic of errorsOf(uri)) {
+                const key = diagnosticKey(diagnostic);
+                const count = remaining.get(key) ?? 0;
+                if (count > 0) {
+                    remaining.set(key, count - 1);
+                } else {
+                    introduced.push(`${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1}: ${diagnostic.message}`);
+                }
+            }
+        }
+        if (introduced.length === 0) {
+            return { name: 'Diagnostics', passed: true, details: `The patch introduced no errors.${uncheckedNote}` };
+        }
+        return { name: 'Diagnostics', passed: false, details: `${introduced.length} new error(s):${uncheckedNote}\n${lastLines(introduced.join('\n'))}` };
+    }
+
+    /**
+     * Runs a task from tasks.json or a task provider, by name, and checks its exit
+     * code. Tasks that are not processes have no exit code and pass when they end.
+     */
+    private async runTask(taskName: string): Promise<ValidationStep> {
+        const name = `Task '${taskName}'`;
+        const task = (await vscode.tasks.fetchTasks()).find(candidate => candidate.name === taskName);
+        if (!task) {
+            return { name, passed: false, details: 'No task with this name was found.' };
+        }
+        const execution = Promise.resolve(vscode.tasks.executeTask(task));
+        const isThisTask = async (ended: vscode.TaskExecution) => ended === await execution.catch(() => undefined);
+        return new Promise<ValidationStep>(resolve => {
+            let settled = false;
+            const finish = (step: ValidationStep) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timeoutTimer);
+                    listeners.forEach(listener => listener.dispose());
+                    resolve(step);
+                }
+            };
+            const timeoutTimer = setTimeout(() => {
+                execution.then(started => started.terminate(), () => undefined);
+                finish({ name, passed: false, details: `The task did not finish within ${COMMAND_TIMEOUT_MS / 60000} minutes and was terminated.` });
+            }, COMMAND_TIMEOUT_MS);
+            const listeners = [
+                vscode.tasks.onDidEndTaskProcess(async event => {
+                    if (await isThisTask(event.execution)) {
+                        finish(event.exitCode === 0
+                            ? { name, passed: true }
+                            : { name, passed: false, details: event.exitCode === undefined ? 'The task was terminated.' : `The task exited with code ${event.exitCode}. See its terminal for the output.` });
+                    }
+                }),
+                // Fired after onDidEndTaskProcess for process tasks, and alone for custom executions.
+                vscode.tasks.onDidEndTask(async event => {
+                    if (await isThisTask(event.execution)) {
+                        finish({ name, passed: true, details: 'The task ended without reporting an exit code.' });
+                    }
+                }),
+            ];
+            execution.then(undefined, err => {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                finish({ name, passed: false, details: `The task could not be started: ${errorMessage}` });
+            });
+        });
+    }
+
+    /** Runs a shell command in the workspace folder of the patched files. */
+    private runCommand(command: string, uri: vscode.Uri | undefined): Promise<ValidationStep> {
+        const folder = (uri && vscode.workspace.getWorkspaceFolder(uri)) ?? vscode.workspace.workspaceFolders?.[0];
+        const name = `Command '${command}'`;
+        return new Promise(resolve => {
+            exec(command, { cwd: folder?.uri.fsPath, timeout: COMMAND_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+                const output = lastLines(`${stdout}${stderr}`.trim());
+                if (!error) {
+                    resolve({ name, passed: true, details: output || undefined });
+                } else {
+                    const cause = error.killed ? 'The command timed out.' : `The command exited with code ${error.code}.`;
+                    resolve({ name, passed: false, details: output ? `${cause}\n${output}` : cause });
+                }
+            });
+        });
+    }
+
+    private configuration() {
+        return vscode.workspace.getConfiguration('vscodepatchapply');
+    }
+}
+
+function errorsOf(uri: vscode.Uri): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(uri).filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error);
+}
+
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return `${diagnostic.source ?? ''}|${code ?? ''}|${diagnostic.message}`;
+}
+
+/**
+ * Resolves once the diagnostics of the files have stopped changing, or after
+ * {@link DIAGNOSTICS_TIMEOUT_MS} if no language server reports on them.
+ */
+function waitForDiagnostics(uris: vscode.Uri[]): Promise<void> {
+    if (uris.length === 0) {
+        return Promise.resolve();
+    }
+    const watched = new Set(uris.map(uri => uri.toString()));
+    return new Promise(resolve => {
+        let settleTimer: NodeJS.Timeout | undefined;
+        const done = () => {
+            clearTimeout(settleTimer);
+            clearTimeout(timeoutTimer);
+            listener.dispose();
+            resolve();
+        };
+        const timeoutTimer = setTimeout(done, DIAGNOSTICS_TIMEOUT_MS);
+        const listener = vscode.languages.onDidChangeDiagnostics(event => {
+            if (event.uris.some(uri => watched.has(uri.toString()))) {
+                clearTimeout(settleTimer);
+                settleTimer = setTimeout(done, DIAGNOSTICS_SETTLE_MS);
+            }
+        });
+    });
+}
+
+function lastLines(text: string): string {
+    const lines = text.split('\n');
+    return lines.length > MAX_DETAIL_LINES ? ['…', ...lines.slice(-MAX_DETAIL_LINES)].join('\n') : text;
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { PendingChangesManager } from './PendingChangesManager';
+
+/** Shows "Accept | Reject" above every hunk staged for inline review. */
+export class PendingChangesCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private readonly _subscription: vscode.Disposable;
+
+    constructor(private readonly _pendingChanges: PendingChangesManager) {
+        this._subscription = _pendingChanges.onDidChange(() => this._onDidChangeCodeLenses.fire());
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const hunks = this._pendingChanges.hunks(document.uri);
+        return hunks.flatMap((hunk, index) => {
+            const line = Math.min(hunk.startLine, document.lineCount - 1);
+            const range = new vscode.Range(line, 0, line, 0);
+            const uri = document.uri.toString();
+            const lenses = [
+                new vscode.CodeLens(range, { title: 'Accept', command: 'vscodepatchapply.acceptStagedHunk', arguments: [uri, hunk.id] }),
+                new vscode.CodeLens(range, { title: 'Reject', command: 'vscodepatchapply.rejectStagedHunk', arguments: [uri, hunk.id] }),
+            ];
+            if (index === 0 && hunks.length > 1) {
+                lenses.push(
+                    new vscode.CodeLens(range, { title: 'Accept All', command: 'vscodepatchapply.acceptAllStagedHunks', arguments: [uri] }),
+                    new vscode.CodeLens(range, { title: 'Reject All', command: 'vscodepatchapply.rejectAllStagedHunks', arguments: [uri] })
+                );
+            }
+            return lenses;
+        });
+    }
+
+    public dispose() {
+        this._subscription.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
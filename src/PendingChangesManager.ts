@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as Diff from 'diff';
+import { normalizeLineEndings } from './fileEncoding';
+import { replaceDocumentText } from './PatchTransaction';
+
+/**
+ * A hunk staged in a document: its added lines are in the document already and
+ * its removed lines are kept aside, so that rejecting it can put them back.
+ */
+export interface StagedHunk {
+    id: number;
+    /** First line of the added lines, 0-based. Kept up to date while the document is edited. */
+    startLine: number;
+    /** Number of added lines in the document. Zero for hunks that only remove lines. */
+    lineCount: number;
+    /** True if the last added line ends with a line break. */
+    endsWithNewline: boolean;
+    removedLines: string[];
+    /** The removed lines as they were in the document, line breaks included. */
+    removedText: string;
+}
+
+/**
+ * Stages patches inside their target editors for inline review. The patched
+ * text is written into the document, added lines are highlighted, removed lines
+ * are shown as ghost text, and each hunk can be accepted or rejected on its own.
+ */
+export class PendingChangesManager implements vscode.Disposable {
+    private readonly _staged = new Map<string, StagedHunk[]>();
+    private _nextId = 1;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly _addedDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+    private readonly _removedDecoration = vscode.window.createTextEditorDecorationType({
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+        after: {
+            color: new vscode.ThemeColor('editorGhostText.foreground'),
+            textDecoration: 'line-through',
+            margin: '0 0 0 2em',
+        },
+    });
+
+    constructor() {
+        this._disposables.push(
+            this._onDidChange,
+            this._addedDecoration,
+            this._removedDecoration,
+            vscode.workspace.onDidChangeTextDocument(event => this.trackEdits(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.discard(document.uri)),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.render())
+        );
+    }
+
+    public hunks(uri: vscode.Uri): readonly StagedHunk[] {
+        return this._staged.get(uri.toString()) ?? [];
+    }
+
+    public get hasStagedChanges(): boolean {
+        return this._staged.size > 0;
+    }
+
+    /**
+     * Writes `patchedText` into the document and stages the difference as hunks.
+     * Returns the number of hunks staged.
+     */
+    public async stage(document: vscode.TextDocument, patchedText: string): Promise<number> {
+        if (this._staged.has(document.uri.toString())) {
+            throw new Error(`${vscode.workspace.asRelativePath(document.uri)} already has staged changes. Accept or reject them first.`);
+        }
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const original = normalizeLineEndings(document.getText());
+        const patched = normalizeLineEndings(patchedText);
+        const { hunks } = Diff.structuredPatch('', '', original, patched, '', '', { context: 0 });
+        if (hunks.length === 0) {
+            return 0;
+        }
+
+        await replaceDocumentText(document, patched.replace(/\n/g, eol));
+        this._staged.set(document.uri.toString(), hunks.map(hunk => this.toStagedHunk(hunk, eol)));
+        this.changed();
+        return hunks.length;
+    }
+
+    /** The text the document would have if every staged hunk was rejected. */
+    public originalText(document: vscode.TextDocument): string {
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const lines = document.getText().split(eol);
+        const hunks = [...this.hunks(document.uri)].sort((a, b) => b.startLine - a.startLine);
+        for (const hunk of hunks) {
+            lines.splice(hunk.startLine, hunk.lineCount, ...hunk.removedLines);
+        }
+        return lines.join(eol);
+    }
+
+    /** Keeps the hunk as it is in the document. */
+    public accept(uri: vscode.Uri, hunkId: number) {
+        this.remove(uri, hunkId);
+        this.changed();
+    }
+
+    /** Puts the removed lines of the hunk back in place of its added lines. */
+    public async reject(uri: vscode.Uri, hunkId: number) {
+        const hunk = this.remove(uri, hunkId);
+        if (!hunk) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        const start = document.validatePosition(new vscode.Position(hunk.startLine, 0));
+        const end = hunk.lineCount === 0 ? start
+            : hunk.endsWithNewline ? document.validatePosition(new vscode.Position(hunk.startLine + hunk.lineCount, 0))
+            : document.lineAt(Math.min(hunk.startLine + hunk.lineCount - 1, document.lineCount - 1)).range.end;
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, new vscode.Range(start, end), hunk.removedText);
+        this.changed();
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(`Could not reject the change in ${vscode.workspace.asRelativePath(uri)}.`);
+        }
+    }
+
+    public acceptAll(uri: vscode.Uri) {
+        this._staged.delete(uri.toString());
+        this.changed();
+    }
+
+    public async rejectAll(uri: vscode.Uri) {
+        // Bottom-up, so that no rejection moves a hunk that is still to be rejected.
+        const hunks = [...this.hunks(uri)].sort((a, b) => b.startLine - a.startLine);
+        for (const hunk of hunks) {
+            await this.reject(uri, hunk.id);
+        }
+    }
+
+    public dispose() {
+        this._staged.clear();
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private toStagedHunk(hunk: Diff.StructuredPatchHunk, eol: string): StagedHunk {
+        const removedLines: string[] = [];
+        let removedText = '';
+        let endsWithNewline = true;
+        hunk.lines.forEach((line, index) => {
+            const hasNewline = !hunk.lines[index + 1]?.startsWith('\\');
+            if (line.startsWith('-')) {
+                removedLines.push(line.substring(1));
+                removedText += line.substring(1) + (hasNewline ? eol : '');
+            } else if (line.startsWith('+')) {
+                endsWithNewline = hasNewline;
+            }
+        });
+        return { id: this._nextId++, startLine: hunk.newStart - 1, lineCount: hunk.newLines, endsWithNewline, removedLines, removedText };
+    }
+
+    private remove(uri: vscode.Uri, hunkId: number): StagedHunk | undefined {
+        const hunks = this._staged.get(uri.toString());
+        const hunk = hunks?.find(candidate => candidate.id === hunkId);
+        if (!hunks || !hunk) {
+            return undefined;
+        }
+        const remaining = hunks.filter(candidate => candidate !== hunk);
+        if (remaining.length > 0) {
+            this._staged.set(uri.toString(), remaining);
+        } else {
+            this._staged.delete(uri.toString());
+        }
+        return hunk;
+    }
+
+    private discard(uri: vscode.Uri) {
+        if (this._staged.delete(uri.toString())) {
+            this.changed();
+        }
+    }
+
+    /** Moves and resizes the staged hunks of a document to follow an edit. */
+    private trackEdits(event: vscode.TextDocumentChangeEvent) {
+        const hunks = this._staged.get(event.document.uri.toString());
+        if (!hunks || event.contentChanges.length === 0) {
+            return;
+        }
+        for (const change of event.contentChanges) {
+            const changeStart = change.range.start.line;
+            const changeEnd = change.range.end.line;
+            const delta = (change.text.match(/\r\n|\r|\n/g)?.length ?? 0) - (changeEnd - changeStart);
+            for (const hunk of hunks) {
+                const hunkEnd = hunk.startLine + hunk.lineCount;
+                if (changeEnd < hunk.startLine) {
+                    hunk.startLine += delta;
+                } else if (changeStart >= hunkEnd && !(hunk.lineCount === 0 && changeStart === hunk.startLine)) {
+                    continue;
+                } else {
+                    // The edit touches the hunk: it now spans whatever the edit left of it.
+                    const newStart = Math.min(changeStart, hunk.startLine);
+                    const newEnd = changeEnd < hunkEnd ? hunkEnd + delta : changeEnd + delta + 1;
+                    hunk.startLine = newStart;
+                    hunk.lineCount = Math.max(newEnd - newStart, 0);
+                }
+            }
+        }
+        this.changed();
+    }
+
+    private changed() {
+        this.render();
+        this._onDidChange.fire();
+    }
+
+    private render() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const hunks = this.hunks(editor.document.uri);
+            const added: vscode.Range[] = [];
+            const removed: vscode.DecorationOptions[] = [];
+            for (const hunk of hunks) {
+                if (hunk.lineCount > 0) {
+                    added.push(new vscode.Range(hunk.startLine, 0, hunk.startLine + hunk.lineCount - 1, 0));
+                }
+                if (hunk.removedLines.length > 0) {
+                    const anchorLine = Math.min(hunk.startLine, editor.document.lineCount - 1);
+                    const more = hunk.removedLines.length > 1 ? ` (+${hunk.removedLines.length - 1} more removed)` : '';
+                    removed.push({
+                        range: editor.document.lineAt(anchorLine).range,
+                        hoverMessage: new vscode.MarkdownString().appendCodeblock(hunk.removedLines.map(line => '-' + line).join('\n'), 'diff'),
+                        renderOptions: { after: { contentText: `− ${hunk.removedLines[0].trim()}${more}` } },
+                    });
+                }
+            }
+            editor.setDecorations(this._addedDecoration, added);
+            editor.setDecorations(this._removedDecoration, removed);
+        }
+    }
+}
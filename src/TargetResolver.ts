@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import { ParsedFilePatch, patchOperation } from './gitPatch';
+import { PatchFileSystem } from './PatchEngine';
+
+/** A file that may be the target of a patch, scored by how much of the patch path it matches. */
+export interface TargetCandidate {
+    uri: vscode.Uri;
+    /** Number of trailing path components shared with the patch path. */
+    score: number;
+}
+
+export type TargetResolution =
+    | { kind: 'resolved'; uri: vscode.Uri }
+    | { kind: 'ambiguous'; candidates: TargetCandidate[] }
+    | { kind: 'notFound' };
+
+const MAX_STRIP_LEVEL = 4;
+const MAX_SEARCH_RESULTS = 200;
+
+/** Removes the first `level` components of a path, like `patch -p<level>`. */
+export function stripPathComponents(path: string, level: number): string | undefined {
+    const components = path.replace(/\\/g, '/').replace(/^\/+/, '').split('/').filter(component => component !== '' && component !== '.');
+    if (level >= components.length) {
+        return undefined;
+    }
+    return components.slice(level).join('/');
+}
+
+/** Number of trailing path components two paths have in common. */
+export function pathSuffixScore(candidatePath: string, patchPath: string): number {
+    const candidate = candidatePath.split('/').filter(Boolean);
+    const wanted = patchPath.split('/').filter(Boolean);
+    let score = 0;
+    while (score < candidate.length && score < wanted.length
+        && candidate[candidate.length - 1 - score] === wanted[wanted.length - 1 - score]) {
+        score++;
+    }
+    return score;
+}
+
+/** The path a patch reads from, or for new files the path it creates, as written in the patch. */
+export function patchSourcePath(patch: ParsedFilePatch): string | undefined {
+    const fileName = patchOperation(patch) === 'create' ? patch.newFileName : patch.oldFileName;
+    if (!fileName || fileName === '/dev/null' || fileName.trim() === '') {
+        return undefined;
+    }
+    return fileName.trim();
+}
+
+/**
+ * Finds the workspace files that the patches of one diff apply to, across all
+ * workspace folders. The number of leading path components to strip (`-p`) is
+ * detected once per diff, as the level at which the most files exist. Files
+ * that are not found there are searched for by name, and the candidates are
+ * ranked by the longest matching path suffix. A candidate is only taken
+ * without asking when it ends with the whole relative path.
+ */
+export class TargetResolver {
+    private constructor(
+        private readonly _fs: PatchFileSystem,
+        private readonly _folders: vscode.Uri[],
+        public readonly stripLevel: number,
+        /** Folder with the most files of the diff, where new files go when nothing else decides. */
+        private readonly _primaryFolder: vscode.Uri | undefined
+    ) {}
+
+    public static async create(patches: ParsedFilePatch[], fs: PatchFileSystem): Promise<TargetResolver> {
+        const folders = fs.folders;
+        const existingPaths = patches
+            .filter(patch => patchOperation(patch) !== 'create')
+            .map(patchSourcePath)
+            .filter((path): path is string => path !== undefined);
+        const allPaths = patches.map(patchSourcePath).filter((path): path is string => path !== undefined);
+
+        // git diffs use a/ and b/ prefixes; plain `diff -u` output usually has none.
+        const defaultLevel = allPaths.length > 0 && allPaths.every(path => /^[ab]\//.test(path)) ? 1 : 0;
+        let best = { level: defaultLevel, hits: 0, folderHits: new Map<string, number>() };
+        for (let level = 0; level <= MAX_STRIP_LEVEL; level++) {
+            const folderHits = new Map<string, number>();
+            let hits = 0;
+            for (const path of existingPaths) {
+                const stripped = stripPathComponents(path, level);
+                if (!stripped) {
+                    continue;
+                }
+                for (const folder of folders) {
+                    if (await fileExists(fs, vscode.Uri.joinPath(folder, stripped))) {
+                        hits++;
+                        folderHits.set(folder.toString(), (folderHits.get(folder.toString()) ?? 0) + 1);
+                        break;
+                    }
+                }
+            }
+            if (hits > best.hits || (hits === best.hits && hits > 0 && level === defaultLevel)) {
+                best = { level, hits, folderHits };
+            }
+        }
+
+        const primaryFolder = [...folders].sort((a, b) => (best.folderHits.get(b.toString()) ?? 0) - (best.folderHits.get(a.toString()) ?? 0))[0];
+        return new TargetResolver(fs, folders, best.level, primaryFolder);
+    }
+
+    public get hasWorkspace(): boolean {
+        return this._folders.length > 0;
+    }
+
+    /** The path of a patch file name relative to its workspace folder. */
+    public relativePath(patchPath: string): string | undefined {
+        return stripPathComponents(patchPath, this.stripLevel) ?? stripPathComponents(patchPath, 0);
+    }
+
+    /** Finds the existing file a modification, deletion, rename or copy applies to. */
+    public async resolveExisting(patchPath: string): Promise<TargetResolution> {
+        const relativePath = this.relativePath(patchPath);
+        if (!relativePath) {
+            return { kind: 'notFound' };
+        }
+
+        const exactMatches: vscode.Uri[] = [];
+        for (const folder of this._folders) {
+            const uri = vscode.Uri.joinPath(folder, relativePath);
+            if (await fileExists(this._fs, uri)) {
+                exactMatches.push(uri);
+            }
+        }
+        if (exactMatches.length === 1) {
+            return { kind: 'resolved', uri: exactMatches[0] };
+        }
+        const fullScore = relativePath.split('/').length;
+        if (exactMatches.length > 1) {
+            return { kind: 'ambiguous', candidates: exactMatches.map(uri => ({ uri, score: fullScore })) };
+        }
+
+        const baseName = relativePath.split('/').pop()!;
+        let found: vscode.Uri[] = [];
+        try {
+            found = await this._fs.findFiles(`**/${escapeGlob(baseName)}`, MAX_SEARCH_RESULTS);
+        } catch (e) {
+            console.error(`Error searching for ${baseName}:`, e);
+        }
+        const candidates = found
+            .map(uri => ({ uri, score: pathSuffixScore(uri.path, relativePath) }))
+            .filter(candidate => candidate.score > 0)
+            .sort((a, b) => b.score - a.score || a.uri.path.length - b.uri.path.length);
+        if (candidates.length === 0) {
+            return { kind: 'notFound' };
+        }
+        const fullMatches = candidates.filter(candidate => candidate.score === fullScore);
+        if (fullMatches.length === 1) {
+            return { kind: 'resolved', uri: fullMatches[0].uri };
+        }
+        // A file that only shares the end of the path, e.g. the name, may be an unrelated file: ask.
+        return { kind: 'ambiguous', candidates };
+    }
+
+    /**
+     * Decides where a new file goes: the workspace folder that already has its
+     * parent directory, or the folder most of the other files of the diff are in.
+     */
+    public async resolveNew(patchPath: string): Promise<TargetResolution> {
+        const relativePath = this.relativePath(patchPath);
+        if (!relativePath || this._folders.length === 0) {
+            return { kind: 'notFound' };
+        }
+        if (this._folders.length === 1) {
+            return { kind: 'resolved', uri: vscode.Uri.joinPath(this._folders[0], relativePath) };
+        }
+
+        const parentPath = relativePath.split('/').slice(0, -1).join('/');
+        if (parentPath) {
+            const withParent: vscode.Uri[] = [];
+            for (const folder of this._folders) {
+                if (await fileExists(this._fs, vscode.Uri.joinPath(folder, parentPath))) {
+                    withParent.push(vscode.Uri.joinPath(folder, relativePath));
+                }
+            }
+            if (withParent.length === 1) {
+                return { kind: 'resolved', uri: withParent[0] };
+            }
+            if (withParent.length > 1) {
+                return { kind: 'ambiguous', candidates: withParent.map(uri => ({ uri, score: relativePath.split('/').length })) };
+            }
+        }
+        return { kind: 'resolved', uri: vscode.Uri.joinPath(this._primaryFolder ?? this._folders[0], relativePath) };
+    }
+}
+
+/**
+ * The workspace file a path from {@link vscode.workspace.asRelativePath} refers
+ * to. In multi-root workspaces such paths start with the folder name.
+ */
+export function workspaceUriOfRelativePath(relativePath: string): vscode.Uri | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length > 1) {
+        const folder = folders.find(candidate => relativePath.startsWith(candidate.name + '/'));
+        if (folder) {
+            return vscode.Uri.joinPath(folder.uri, relativePath.substring(folder.name.length + 1));
+        }
+    }
+    return folders.length > 0 ? vscode.Uri.joinPath(folders[0].uri, relativePath) : undefined;
+}
+
+async function fileExists(fs: PatchFileSystem, uri: vscode.Uri): Promise<boolean> {
+    try {
+        return await fs.stat(uri) !== undefined;
+    } catch {
+        return false;
+    }
+}
+
+function escapeGlob(name: string): string {
+    return name.replace(/[\[\]{}*?!]/g, char => `[${char}]`);
+}
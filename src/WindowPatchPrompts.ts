@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { NotificationSeverity, PatchPrompts } from './PatchEngine';
+import { HunkFailureResolution } from './PatchTransaction';
+import { TargetResolution } from './TargetResolver';
+
+interface FileQuickPickItem extends vscode.QuickPickItem {
+    action: 'select_this_uri' | 'choose_manually' | 'cancel_operation';
+    uri?: vscode.Uri;
+}
+
+/** Answers the patch engine's questions with notifications, quick picks and file dialogs. */
+export class WindowPatchPrompts implements PatchPrompts {
+    constructor(private readonly _onRepairs: (repairs: string[]) => void) {}
+
+    /** True if `vscodepatchapply.nonInteractive` is on: no prompts, unresolved files are skipped. */
+    public get nonInteractive(): boolean {
+        return vscode.workspace.getConfiguration('vscodepatchapply').get<boolean>('nonInteractive', false);
+    }
+
+    public notify(severity: NotificationSeverity, message: string) {
+        if (severity === 'error') {
+            vscode.window.showErrorMessage(message);
+        } else if (severity === 'warning') {
+            vscode.window.showWarningMessage(message);
+        } else {
+            vscode.window.showInformationMessage(message);
+        }
+    }
+
+    public reportRepairs(repairs: string[]) {
+        this._onRepairs(repairs);
+    }
+
+    /**
+     * Lets the user pick among files that match equally well, ranked by match,
+     * or pick the file in a dialog when nothing matched.
+     */
+    public async chooseTarget(displayFileName: string, resolution: Exclude<TargetResolution, { kind: 'resolved' }>, isNewFile: boolean): Promise<vscode.Uri | undefined> {
+        if (resolution.kind === 'ambiguous') {
+            const quickPickItems: FileQuickPickItem[] = resolution.candidates.map(candidate => ({
+                label: vscode.workspace.asRelativePath(candidate.uri),
+                description: candidate.score === resolution.candidates[0].score ? 'best match' : undefined,
+                uri: candidate.uri,
+                action: 'select_this_uri'
+            }));
+            quickPickItems.push({ label: "Choose Different File (Manually)", action: 'choose_manually' });
+            quickPickItems.push({ label: "Cancel", action: 'cancel_operation' });
+
+            const chosenItem = await vscode.window.showQuickPick<FileQuickPickItem>(
+                quickPickItems, { placeHolder: `Several files match '${displayFileName}'. Select one or choose manually:`, canPickMany: false }
+            );
+            if (!chosenItem || chosenItem.action === 'cancel_operation') {
+                return undefined;
+            }
+            if (chosenItem.action === 'select_this_uri' && chosenItem.uri) {
+                return chosenItem.uri;
+            }
+        }
+
+        // Nothing found, or the user chose to pick the file manually.
+        const firstFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const defaultUri = firstFolder ? vscode.Uri.joinPath(firstFolder, displayFileName) : undefined;
+        if (isNewFile) {
+            return vscode.window.showSaveDialog({ defaultUri, saveLabel: `Create '${displayFileName}'` });
+        }
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: `Select Target File for Patch: '${displayFileName}'`,
+            filters: { 'All files': ['*'] },
+            defaultUri
+        });
+        return uris?.[0];
+    }
+
+    public async confirmOverwrite(message: string): Promise<boolean> {
+        return await vscode.window.showWarningMessage(message, { modal: true }, "Overwrite") === "Overwrite";
+    }
+
+    /**
+     * Decides what to do with a file where some hunks do not apply, from the
+     * `vscodepatchapply.hunkFailure` setting or by asking.
+     */
+    public async chooseHunkFailureResolution(relativePath: string, failedCount: number, totalCount: number): Promise<HunkFailureResolution> {
+        const configured = vscode.workspace.getConfiguration('vscodepatchapply').get<HunkFailureResolution | 'ask'>('hunkFailure', 'ask');
+        if (configured !== 'ask') {
+            return configured;
+        }
+        if (this.nonInteractive) {
+            return 'abort';
+        }
+
+        const conflictMarkers = "Insert Conflict Markers";
+        const rejectFile = "Write .rej File";
+        const choice = await vscode.window.showWarningMessage(
+            `${failedCount} of ${totalCount} hunk(s) do not apply to ${relativePath}. ` +
+            `Apply the ones that fit and insert conflict markers for the rest, or write the rest to a .rej file?`,
+            { modal: true }, conflictMarkers, rejectFile
+        );
+        if (choice === conflictMarkers) {
+            return 'conflictMarkers';
+        }
+        if (choice === rejectFile) {
+            return 'rejectFile';
+        }
+        return 'abort';
+    }
+}
@@ -0,0 +1,248 @@
+import * as Diff from 'diff';
+import { formatHunkHeader } from './hunkApply';
+
+/** Diff text rebuilt by the recovery parser, with a description of every repair made. */
+export interface RecoveredDiff {
+    text: string;
+    repairs: string[];
+}
+
+/** Hunks moved to where their context was found in the target, and what was changed. */
+export interface HunkPlacement {
+    patch: Diff.StructuredPatch;
+    repairs: string[];
+    /** True if at least one hunk only matched when leading and trailing whitespace is ignored. */
+    whitespaceInsensitive: boolean;
+}
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const DIFF_FENCE_LANGUAGES = ['diff', 'patch', 'udiff'];
+export const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/**
+ * Pulls every diff out of a chat transcript. Fenced blocks tagged `diff` or
+ * `patch`, or untagged ones whose content looks like a diff, are kept and
+ * everything else is dropped. Text without any fence is returned unchanged.
+ */
+export function extractDiffBlocks(rawText: string): { text: string; blockCount: number } {
+    const lines = rawText.replace(/\r\n/g, '\n').split('\n');
+    const blocks: string[][] = [];
+    let sawFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const open = FENCE_REGEX.exec(lines[i]);
+        if (!open) {
+            continue;
+        }
+        sawFence = true;
+        const fence = open[1];
+        const language = open[2].toLowerCase();
+        const body: string[] = [];
+        let j = i + 1;
+        for (; j < lines.length; j++) {
+            if (lines[j].trim().startsWith(fence) && lines[j].trim().replace(/[`~]/g, '') === '') {
+                break;
+            }
+            body.push(lines[j]);
+        }
+        if (DIFF_FENCE_LANGUAGES.includes(language) || (!language && looksLikeDiff(body))) {
+            blocks.push(body);
+        }
+        i = j;
+    }
+
+    if (!sawFence) {
+        return { text: rawText, blockCount: 0 };
+    }
+    return { text: blocks.map(block => block.join('\n')).join('\n'), blockCount: blocks.length };
+}
+
+function looksLikeDiff(lines: string[]): boolean {
+    return lines.some(line => line.startsWith('@@') || line.startsWith('diff --git ')) ||
+        lines.some((line, index) => line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ '));
+}
+
+/**
+ * Rebuilds the hunk headers of a diff from the hunk bodies. Fixes wrong line
+ * counts, fills in missing line numbers (`@@ ... @@`) and restores the leading
+ * space of context lines that lost it. Missing start lines are left as guesses
+ * for {@link locateHunks} to correct against the real file.
+ */
+export function repairDiffText(diffText: string): RecoveredDiff {
+    const lines = diffText.replace(/\r\n/g, '\n').split('\n');
+    const output: string[] = [];
+    const repairs: string[] = [];
+    let currentFile = 'unknown file';
+    let hunkNumber = 0;
+    let lineDelta = 0;
+    let lastOldEnd = 0;
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (isFileBoundary(lines, i)) {
+            if (line.startsWith('--- ')) {
+                currentFile = (lines[i + 1].substring(4).split('\t')[0] || line.substring(4)).replace(/^[ab]\//, '').trim();
+                hunkNumber = 0;
+                lineDelta = 0;
+                lastOldEnd = 0;
+            }
+            output.push(line);
+            i++;
+            continue;
+        }
+        if (!line.startsWith('@@')) {
+            output.push(line);
+            i++;
+            continue;
+        }
+
+        hunkNumber++;
+        const header = HUNK_HEADER_REGEX.exec(line.trimEnd());
+        const declaredOldLines = header ? (header[2] === undefined ? 1 : parseInt(header[2], 10)) : undefined;
+        const declaredNewLines = header ? (header[4] === undefined ? 1 : parseInt(header[4], 10)) : undefined;
+
+        // Collect the body. Lines without a marker are context lines that lost their
+        // leading space, unless the declared counts are used up, which ends the hunk.
+        const body: string[] = [];
+        let missingSpaceCount = 0;
+        let oldCount = 0;
+        let newCount = 0;
+        i++;
+        while (i < lines.length && !lines[i].startsWith('@@') && !isFileBoundary(lines, i)) {
+            const bodyLine = lines[i];
+            const hasMarker = /^[ +\-\\]/.test(bodyLine);
+            const countsUsedUp = declaredOldLines !== undefined && oldCount >= declaredOldLines && newCount >= (declaredNewLines ?? 0);
+            if (!hasMarker && countsUsedUp) {
+                break;
+            }
+            const fixedLine = hasMarker ? bodyLine : ' ' + bodyLine;
+            if (!hasMarker && bodyLine !== '') {
+                missingSpaceCount++;
+            }
+            if (fixedLine[0] !== '+' && fixedLine[0] !== '\\') {
+                oldCount++;
+            }
+            if (fixedLine[0] !== '-' && fixedLine[0] !== '\\') {
+                newCount++;
+            }
+            body.push(fixedLine);
+            i++;
+        }
+        // Blank lines after the last change usually separate the diff from what follows.
+        while (body.length > 0 && body[body.length - 1] === ' ') {
+            body.pop();
+            oldCount--;
+            newCount--;
+        }
+
+        const hunk: Diff.StructuredPatchHunk = {
+            oldStart: header ? parseInt(header[1], 10) : lastOldEnd + 1,
+            oldLines: oldCount,
+            newStart: 0,
+            newLines: newCount,
+            lines: body,
+        };
+        hunk.newStart = hunk.oldStart + lineDelta;
+        // A pure insertion is positioned after the line its start points at.
+        if (hunk.oldLines === 0) {
+            hunk.oldStart = Math.max(hunk.oldStart - (header ? 0 : 1), 0);
+        }
+        lastOldEnd = hunk.oldStart + Math.max(hunk.oldLines - 1, 0);
+        lineDelta += hunk.newLines - hunk.oldLines;
+
+        const rebuiltHeader = formatHunkHeader(hunk) + (header ? header[5] : '');
+        const where = `hunk ${hunkNumber} of ${currentFile}`;
+        if (!header) {
+            repairs.push(`Filled in missing line numbers of ${where}: ${formatHunkHeader(hunk)} (position will be found by searching the file).`);
+        } else if (rebuiltHeader !== line.trimEnd()) {
+            repairs.push(`Recomputed header of ${where}: ${line.trim()} → ${formatHunkHeader(hunk)}.`);
+        }
+        if (missingSpaceCount > 0) {
+            repairs.push(`Restored the leading space of ${missingSpaceCount} context line(s) in ${where}.`);
+        }
+        output.push(rebuiltHeader, ...body);
+    }
+
+    return { text: output.join('\n'), repairs };
+}
+
+function isFileBoundary(lines: string[], index: number): boolean {
+    const line = lines[index];
+    return line.startsWith('diff --git ') || line.startsWith('Index: ') ||
+        (line.startsWith('--- ') && (lines[index + 1]?.startsWith('+++ ') ?? false)) ||
+        (line.startsWith('+++ ') && (lines[index - 1]?.startsWith('--- ') ?? false));
+}
+
+/**
+ * Runs fence extraction and header repair over pasted text.
+ */
+export function recoverDiff(rawText: string): RecoveredDiff {
+    const extracted = extractDiffBlocks(rawText);
+    const repaired = repairDiffText(extracted.text);
+    const repairs = [...repaired.repairs];
+    if (extracted.blockCount > 0) {
+        repairs.unshift(`Extracted ${extracted.blockCount} diff block(s) from the surrounding text.`);
+    }
+    return { text: repaired.text, repairs };
+}
+
+/**
+ * Moves every hunk to where its context and removed lines are actually found in
+ * `source`, preferring the match nearest to the position in its header. Hunks
+ * are kept in order. Hunks whose context cannot be found are left where they are.
+ */
+export function locateHunks(source: string, patch: Diff.StructuredPatch, fileLabel: string): HunkPlacement {
+    const fileLines = source.split('\n');
+    const repairs: string[] = [];
+    let whitespaceInsensitive = false;
+    let searchFrom = 0;
+    let lineDelta = 0;
+
+    const hunks = patch.hunks.map((hunk, index) => {
+        const oldSide = hunk.lines.filter(line => line[0] === ' ' || line[0] === '-').map(line => line.substring(1));
+        if (oldSide.length === 0) {
+            return { ...hunk, newStart: hunk.oldStart + lineDelta };
+        }
+
+        const expected = hunk.oldStart - 1;
+        let found = findNearest(fileLines, oldSide, expected, searchFrom, (a, b) => a === b);
+        if (found === undefined) {
+            found = findNearest(fileLines, oldSide, expected, searchFrom, (a, b) => a.trim() === b.trim());
+            if (found !== undefined) {
+                whitespaceInsensitive = true;
+                repairs.push(`Matched hunk ${index + 1} of ${fileLabel} ignoring leading and trailing whitespace.`);
+            }
+        }
+        if (found === undefined) {
+            return { ...hunk, newStart: hunk.oldStart + lineDelta };
+        }
+
+        if (found !== expected) {
+            repairs.push(`Placed hunk ${index + 1} of ${fileLabel} at line ${found + 1} by searching for its context (header said line ${hunk.oldStart}).`);
+        }
+        searchFrom = found + oldSide.length;
+        const placed = { ...hunk, oldStart: found + 1, newStart: found + 1 + lineDelta };
+        lineDelta += hunk.newLines - hunk.oldLines;
+        return placed;
+    });
+
+    return { patch: { ...patch, hunks }, repairs, whitespaceInsensitive };
+}
+
+function findNearest(fileLines: string[], needle: string[], expected: number, minStart: number, equals: (a: string, b: string) => boolean): number | undefined {
+    let best: number | undefined;
+    for (let start = minStart; start + needle.length <= fileLines.length; start++) {
+        if (needle.every((line, offset) => equals(fileLines[start + offset], line))) {
+            if (best === undefined || Math.abs(start - expected) < Math.abs(best - expected)) {
+                best = start;
+            }
+        }
+    }
+    return best;
+}
+
+/** `compareLine` for `Diff.applyPatch` that ignores leading and trailing whitespace. */
+export function compareLinesIgnoringWhitespace(_lineNumber: number, line: string, _operation: string, patchContent: string): boolean {
+    return line !== undefined && line.trim() === patchContent.trim();
+}
@@ -1,13 +1,82 @@
 import * as vscode from 'vscode';
+import { GitIntegration } from './GitIntegration';
+import { HunkReviewTreeProvider } from './HunkReviewTreeProvider';
 import { PatchApplyViewProvider } from './PatchApplyViewProvider';
+import { PatchExporter } from './PatchExporter';
+import { PatchHistory } from './PatchHistory';
+import { HistoryNode, PatchHistoryTreeProvider } from './PatchHistoryTreeProvider';
+import { PatchInbox } from './PatchInbox';
+import { PatchPreviewContentProvider } from './PatchPreviewContentProvider';
+import { PatchSafetyPolicy } from './PatchSafetyPolicy';
+import { PendingChangesCodeLensProvider } from './PendingChangesCodeLensProvider';
+import { PendingChangesManager } from './PendingChangesManager';
+import { PatchUriHandler } from './PatchUriHandler';
+import { PatchValidator } from './PatchValidator';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Congratulations, your extension "vscodepatchapply" is now active!');
 
-    const provider = new PatchApplyViewProvider(context.extensionUri);
+    const previewProvider = new PatchPreviewContentProvider();
+    const hunkReviewProvider = new HunkReviewTreeProvider();
+    const history = new PatchHistory(context.workspaceState);
+    const historyProvider = new PatchHistoryTreeProvider(history);
+    const pendingChanges = new PendingChangesManager();
+    const pendingChangesCodeLens = new PendingChangesCodeLensProvider(pendingChanges);
+    const inbox = new PatchInbox();
+    const provider = new PatchApplyViewProvider(context.extensionUri, previewProvider, hunkReviewProvider, history, pendingChanges, new GitIntegration(), new PatchValidator(), new PatchSafetyPolicy(), inbox);
+    const exporter = new PatchExporter(provider, pendingChanges);
+    const hunkReviewView = vscode.window.createTreeView(HunkReviewTreeProvider.viewType, { treeDataProvider: hunkReviewProvider });
 
     context.subscriptions.push(
-        vscode.window.registerWebviewViewProvider(PatchApplyViewProvider.viewType, provider)
+        previewProvider,
+        vscode.workspace.registerTextDocumentContentProvider(PatchPreviewContentProvider.scheme, previewProvider),
+        vscode.window.registerWebviewViewProvider(PatchApplyViewProvider.viewType, provider),
+        vscode.commands.registerCommand('vscodepatchapply.revertLastPatch', () => provider.revertLastAppliedPatch()),
+        // These return a PatchApplyResult, so other extensions and tasks can apply diffs headlessly.
+        vscode.commands.registerCommand('vscodepatchapply.applyDiff', (diffText?: string) =>
+            typeof diffText === 'string' ? provider.applyAllPatchesToFiles(diffText) : provider.applyPanelDiff()),
+        vscode.commands.registerCommand('vscodepatchapply.applyAndCommit', (diffText?: string) =>
+            provider.applyAndCommit(typeof diffText === 'string' ? diffText : undefined)),
+        vscode.commands.registerCommand('vscodepatchapply.applyFromClipboard', () => provider.applyFromClipboard()),
+        vscode.commands.registerCommand('vscodepatchapply.applyFromSelection', () => provider.applyFromSelection()),
+        vscode.commands.registerCommand('vscodepatchapply.applyPatchFile', (uri?: vscode.Uri) => provider.applyPatchFile(uri)),
+        vscode.window.registerUriHandler(new PatchUriHandler(provider)),
+        hunkReviewProvider,
+        hunkReviewView,
+        hunkReviewView.onDidChangeCheckboxState(e => hunkReviewProvider.handleCheckboxChange(e)),
+        vscode.commands.registerCommand('vscodepatchapply.applySelectedHunks', () => provider.applySelectedHunks()),
+        vscode.commands.registerCommand('vscodepatchapply.acceptAllHunks', () => hunkReviewProvider.setAllAccepted(true)),
+        vscode.commands.registerCommand('vscodepatchapply.rejectAllHunks', () => hunkReviewProvider.setAllAccepted(false)),
+        vscode.commands.registerCommand('vscodepatchapply.clearHunkReview', () => hunkReviewProvider.clear()),
+        history,
+        historyProvider,
+        vscode.window.registerTreeDataProvider(PatchHistoryTreeProvider.viewType, historyProvider),
+        vscode.commands.registerCommand('vscodepatchapply.viewHistoryEntry', (node: HistoryNode) => provider.viewHistoryEntry(node.entry)),
+        vscode.commands.registerCommand('vscodepatchapply.reapplyHistoryEntry', (node: HistoryNode) => provider.reapplyHistoryEntry(node.entry)),
+        vscode.commands.registerCommand('vscodepatchapply.reverseApplyHistoryEntry', (node: HistoryNode) => provider.reverseApplyHistoryEntry(node.entry)),
+        vscode.commands.registerCommand('vscodepatchapply.removeHistoryEntry', (node: HistoryNode) => history.remove(node.entry.id)),
+        vscode.commands.registerCommand('vscodepatchapply.clearHistory', () => history.clear()),
+        pendingChanges,
+        pendingChangesCodeLens,
+        inbox,
+        vscode.languages.registerCodeLensProvider({ scheme: 'file' }, pendingChangesCodeLens),
+        vscode.commands.registerCommand('vscodepatchapply.acceptStagedHunk', (uri: string, hunkId: number) => pendingChanges.accept(vscode.Uri.parse(uri), hunkId)),
+        vscode.commands.registerCommand('vscodepatchapply.rejectStagedHunk', (uri: string, hunkId: number) => pendingChanges.reject(vscode.Uri.parse(uri), hunkId)),
+        vscode.commands.registerCommand('vscodepatchapply.acceptAllStagedHunks', (uri?: string) => {
+            const target = uri ? vscode.Uri.parse(uri) : vscode.window.activeTextEditor?.document.uri;
+            if (target) {
+                pendingChanges.acceptAll(target);
+            }
+        }),
+        vscode.commands.registerCommand('vscodepatchapply.rejectAllStagedHunks', (uri?: string) => {
+            const target = uri ? vscode.Uri.parse(uri) : vscode.window.activeTextEditor?.document.uri;
+            return target ? pendingChanges.rejectAll(target) : undefined;
+        }),
+        vscode.commands.registerCommand('vscodepatchapply.createPatchAgainstSaved', (uri?: vscode.Uri) => exporter.createPatchAgainstSaved(uri)),
+        vscode.commands.registerCommand('vscodepatchapply.createPatchAgainstHead', (uri?: vscode.Uri) => exporter.createPatchAgainstHead(uri)),
+        vscode.commands.registerCommand('vscodepatchapply.createPatchBetweenFiles', (uri?: vscode.Uri, uris?: vscode.Uri[]) => exporter.createPatchBetweenFiles(uri, uris)),
+        vscode.commands.registerCommand('vscodepatchapply.createPatchFromStagedChanges', (uri?: vscode.Uri) => exporter.createPatchFromStagedChanges(uri)),
+        vscode.commands.registerCommand('vscodepatchapply.createPatchFromHistoryEntry', (node: HistoryNode) => exporter.createPatchFromHistoryEntry(node.entry))
     );
 
     // You could also register a command to explicitly show the panel if needed,
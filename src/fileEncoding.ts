@@ -0,0 +1,113 @@
+import * as Diff from 'diff';
+import { TextDecoder } from 'util';
+
+export type TextEncodingId = 'utf8' | 'utf16le' | 'utf16be' | 'latin1';
+
+export type LineEnding = '\n' | '\r\n' | '\r';
+
+/** How a text file is stored on disk, so that it can be written back the same way. */
+export interface TextFileFormat {
+    encoding: TextEncodingId;
+    bom: boolean;
+    /** The line ending most lines of the file use. */
+    eol: LineEnding;
+}
+
+export interface DecodedTextFile {
+    /** The content with its original line endings, without the BOM. */
+    text: string;
+    format: TextFileFormat;
+}
+
+export const DEFAULT_TEXT_FILE_FORMAT: TextFileFormat = { encoding: 'utf8', bom: false, eol: '\n' };
+
+export function normalizeLineEndings(str: string): string {
+    if (!str) return '';
+    return str.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+}
+
+/**
+ * Decodes a file, detecting its encoding from the BOM. Files without a BOM are
+ * read as UTF-8 if they are valid UTF-8 and as Latin-1 otherwise, which keeps
+ * every byte of legacy 8-bit files intact when they are written back.
+ */
+export function decodeTextFile(bytes: Uint8Array): DecodedTextFile {
+    const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let text: string;
+    let encoding: TextEncodingId;
+    let bom = true;
+
+    if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+        encoding = 'utf8';
+        text = buffer.subarray(3).toString('utf8');
+    } else if (buffer.length >= 2 && buffer[0] === 0xFF && buffer[1] === 0xFE) {
+        encoding = 'utf16le';
+        text = buffer.subarray(2).toString('utf16le');
+    } else if (buffer.length >= 2 && buffer[0] === 0xFE && buffer[1] === 0xFF) {
+        encoding = 'utf16be';
+        text = Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+    } else {
+        bom = false;
+        try {
+            text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+            encoding = 'utf8';
+        } catch {
+            text = buffer.toString('latin1');
+            encoding = 'latin1';
+        }
+    }
+    return { text, format: { encoding, bom, eol: detectLineEnding(text) } };
+}
+
+/** Encodes text the way {@link decodeTextFile} found it. Line endings are written as they are in `text`. */
+export function encodeTextFile(text: string, format: TextFileFormat = DEFAULT_TEXT_FILE_FORMAT): Uint8Array {
+    switch (format.encoding) {
+        case 'utf16le':
+            return Buffer.concat([Buffer.from(format.bom ? [0xFF, 0xFE] : []), Buffer.from(text, 'utf16le')]);
+        case 'utf16be':
+            return Buffer.concat([Buffer.from(format.bom ? [0xFE, 0xFF] : []), Buffer.from(text, 'utf16le').swap16()]);
+        case 'latin1':
+            return Buffer.from(text, 'latin1');
+        default:
+            return Buffer.concat([Buffer.from(format.bom ? [0xEF, 0xBB, 0xBF] : []), Buffer.from(text, 'utf8')]);
+    }
+}
+
+/** The line ending used by most lines, `\n` for text without any. */
+export function detectLineEnding(text: string): LineEnding {
+    const counts = { '\n': 0, '\r\n': 0, '\r': 0 };
+    for (const ending of text.match(/\r\n|\r|\n/g) ?? []) {
+        counts[ending as LineEnding]++;
+    }
+    return (Object.keys(counts) as LineEnding[]).reduce((best, ending) => counts[ending] > counts[best] ? ending : best, '\n');
+}
+
+/**
+ * Gives patched text, which has `\n` line endings, the line endings of the
+ * original. Lines the patch did not touch keep their own ending, so files with
+ * mixed endings only change where the patch changed them; new lines get the
+ * ending most of the file uses.
+ */
+export function restoreLineEndings(originalText: string, patchedText: string): string {
+    const eol = detectLineEnding(originalText);
+    const endings = new Set(originalText.match(/\r\n|\r|\n/g) ?? []);
+    if (endings.size <= 1) {
+        return eol === '\n' ? patchedText : patchedText.replace(/\n/g, eol);
+    }
+
+    const originalLines = originalText.match(/[^\r\n]*(?:\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+    let originalIndex = 0;
+    let result = '';
+    for (const change of Diff.diffLines(normalizeLineEndings(originalText), patchedText)) {
+        const lineCount = change.count ?? 0;
+        if (change.added) {
+            result += change.value.replace(/\n/g, eol);
+        } else if (change.removed) {
+            originalIndex += lineCount;
+        } else {
+            result += originalLines.slice(originalIndex, originalIndex + lineCount).join('');
+            originalIndex += lineCount;
+        }
+    }
+    return result;
+}
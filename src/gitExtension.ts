@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+
+/**
+ * The parts of the built-in Git extension's API (`vscode.git`, version 1) that
+ * this extension uses. See extensions/git/src/api/git.d.ts in the VS Code repository.
+ */
+export interface GitChange {
+    readonly uri: vscode.Uri;
+}
+
+export interface GitRepositoryState {
+    readonly HEAD: { readonly name?: string; readonly commit?: string } | undefined;
+    readonly workingTreeChanges: GitChange[];
+    readonly indexChanges: GitChange[];
+}
+
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: GitRepositoryState;
+    /** Content of a file at a ref. `path` is an absolute file system path. */
+    show(ref: string, path: string): Promise<string>;
+    /** Stages files, given as absolute file system paths. */
+    add(paths: string[]): Promise<void>;
+    commit(message: string): Promise<void>;
+    createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+    deleteBranch(name: string, force?: boolean): Promise<void>;
+    checkout(treeish: string): Promise<void>;
+    /** Refreshes `state`. */
+    status(): Promise<void>;
+}
+
+export interface GitApi {
+    readonly git: { readonly path: string };
+    readonly repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitApi;
+}
+
+/** The Git API, or undefined if the Git extension is missing or disabled. */
+export async function getGitApi(): Promise<GitApi | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+    const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+    return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
+}
@@ -0,0 +1,259 @@
+import * as Diff from 'diff';
+
+export type FileOperation = 'modify' | 'create' | 'delete' | 'rename' | 'copy';
+
+/**
+ * What the `diff --git` extended header lines of a file section say about it.
+ * Paths are given without their `a/` and `b/` prefixes.
+ */
+export interface GitFileHeader {
+    operation: FileOperation;
+    oldPath?: string;
+    newPath?: string;
+    oldMode?: string;
+    newMode?: string;
+    /** Percentage from `similarity index`, for renames and copies. */
+    similarityIndex?: number;
+    /** True for `Binary files ... differ` and `GIT binary patch` sections, which carry no text hunks. */
+    binary: boolean;
+}
+
+/** A single-file patch, with the git extended header when the diff had one. */
+export interface ParsedFilePatch extends Diff.StructuredPatch {
+    git?: GitFileHeader;
+    /** Set when the patch came out of the recovery parser; its hunk positions are then only hints. */
+    recovered?: boolean;
+    /** The complete new content of the file, for inputs that give whole files instead of hunks. */
+    fullContent?: string;
+}
+
+const DIFF_GIT_PREFIX = 'diff --git ';
+
+/**
+ * Parses a unified diff that may contain `git diff` extended headers (renames,
+ * copies, mode changes, new/deleted file markers and binary sections). Diffs
+ * without `diff --git` lines are parsed by `Diff.parsePatch` as they are.
+ */
+export function parseGitAwarePatch(diffText: string): ParsedFilePatch[] {
+    const lines = diffText.split('\n');
+    const sectionStarts = lines.flatMap((line, index) => line.startsWith(DIFF_GIT_PREFIX) ? [index] : []);
+    if (sectionStarts.length === 0) {
+        return Diff.parsePatch(diffText);
+    }
+
+    const patches: ParsedFilePatch[] = [];
+    const preamble = lines.slice(0, sectionStarts[0]);
+    if (preamble.some(line => /^(---|\+\+\+|@@)\s/.test(line))) {
+        patches.push(...Diff.parsePatch(preamble.join('\n')));
+    }
+
+    sectionStarts.forEach((start, sectionIndex) => {
+        const end = sectionIndex + 1 < sectionStarts.length ? sectionStarts[sectionIndex + 1] : lines.length;
+        const sectionLines = lines.slice(start, end);
+        if (sectionIndex === sectionStarts.length - 1) {
+            stripFormatPatchSignature(sectionLines);
+        }
+        patches.push(parseGitSection(sectionLines));
+    });
+    return patches;
+}
+
+export function isBinaryPatch(patch: ParsedFilePatch): boolean {
+    return patch.git?.binary === true;
+}
+
+/**
+ * True if the patch does something even though it has no hunks, like a rename,
+ * a copy, a mode change or creating or deleting an empty file.
+ */
+export function hasFileOperation(patch: ParsedFilePatch): boolean {
+    const git = patch.git;
+    if (!git) {
+        return false;
+    }
+    return git.operation !== 'modify' || git.binary || (git.oldMode !== undefined && git.newMode !== undefined && git.oldMode !== git.newMode);
+}
+
+/** True if applying the patch would change anything. */
+export function patchHasChanges(patch: ParsedFilePatch): boolean {
+    return patch.hunks.length > 0 || patch.fullContent !== undefined || hasFileOperation(patch);
+}
+
+/** The file operation a patch performs, for git and plain unified diffs alike. */
+export function patchOperation(patch: ParsedFilePatch): FileOperation {
+    if (patch.git) {
+        return patch.git.operation;
+    }
+    if (patch.oldFileName === '/dev/null' || patch.oldFileName === 'a/dev/null') {
+        return 'create';
+    }
+    if (patch.newFileName === '/dev/null' || patch.newFileName === 'b/dev/null') {
+        return 'delete';
+    }
+    return 'modify';
+}
+
+/**
+ * Builds the patch that undoes `patch`: added and removed lines and old and new
+ * names are swapped, creations become deletions and renames go back. A reversed
+ * copy deletes the copy. Whole-file patches cannot be reversed and are returned as they are.
+ */
+export function reverseFilePatch(patch: ParsedFilePatch): ParsedFilePatch {
+    if (patch.fullContent !== undefined) {
+        return patch;
+    }
+    const reversed: ParsedFilePatch = { ...patch, ...Diff.reversePatch(patch) };
+    const git = patch.git;
+    if (!git) {
+        return reversed;
+    }
+
+    if (git.operation === 'copy') {
+        reversed.git = { ...git, operation: 'delete', oldPath: git.newPath, newPath: undefined, oldMode: git.newMode, newMode: undefined };
+        reversed.oldFileName = `a/${git.newPath}`;
+        reversed.newFileName = '/dev/null';
+        reversed.hunks = [];
+        return reversed;
+    }
+    const operation: FileOperation = git.operation === 'create' ? 'delete' : git.operation === 'delete' ? 'create' : git.operation;
+    reversed.git = { ...git, operation, oldPath: git.newPath, newPath: git.oldPath, oldMode: git.newMode, newMode: git.oldMode };
+    return reversed;
+}
+
+/**
+ * The commit message of a `git format-patch` mail: the `Subject:` without its
+ * `[PATCH]` tag, followed by the body up to the `---` before the diffstat.
+ */
+export function commitMessageFromPatch(patchText: string): string | undefined {
+    const lines = patchText.replace(/\r\n/g, '\n').split('\n');
+    const subjectIndex = lines.findIndex(line => line.startsWith('Subject: '));
+    if (subjectIndex === -1) {
+        return undefined;
+    }
+    let subject = lines[subjectIndex].substring('Subject: '.length);
+    let i = subjectIndex + 1;
+    for (; i < lines.length && /^\s+\S/.test(lines[i]); i++) {
+        subject += ' ' + lines[i].trim(); // Folded header line.
+    }
+    subject = subject.replace(/^\[PATCH[^\]]*\]\s*/, '').trim();
+
+    const body: string[] = [];
+    for (; i < lines.length && lines[i] !== '---' && !lines[i].startsWith(DIFF_GIT_PREFIX); i++) {
+        body.push(lines[i]);
+    }
+    const bodyText = body.join('\n').trim();
+    return subject ? (bodyText ? `${subject}\n\n${bodyText}` : subject) : undefined;
+}
+
+function parseGitSection(sectionLines: string[]): ParsedFilePatch {
+    const [headerOldPath, headerNewPath] = parseDiffGitLine(sectionLines[0]);
+    const git: GitFileHeader = { operation: 'modify', oldPath: headerOldPath, newPath: headerNewPath, binary: false };
+
+    let i = 1;
+    for (; i < sectionLines.length; i++) {
+        const line = sectionLines[i].replace(/\r$/, '');
+        let match: RegExpExecArray | null;
+        if (/^(---|\+\+\+|@@)\s/.test(line)) {
+            break;
+        } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+            git.binary = true;
+            break;
+        } else if ((match = /^old mode (\d+)$/.exec(line))) {
+            git.oldMode = match[1];
+        } else if ((match = /^new mode (\d+)$/.exec(line))) {
+            git.newMode = match[1];
+        } else if ((match = /^new file mode (\d+)$/.exec(line))) {
+            git.operation = 'create';
+            git.newMode = match[1];
+        } else if ((match = /^deleted file mode (\d+)$/.exec(line))) {
+            git.operation = 'delete';
+            git.oldMode = match[1];
+        } else if ((match = /^rename from (.+)$/.exec(line))) {
+            git.operation = 'rename';
+            git.oldPath = unquoteGitPath(match[1]);
+        } else if ((match = /^rename to (.+)$/.exec(line))) {
+            git.operation = 'rename';
+            git.newPath = unquoteGitPath(match[1]);
+        } else if ((match = /^copy from (.+)$/.exec(line))) {
+            git.operation = 'copy';
+            git.oldPath = unquoteGitPath(match[1]);
+        } else if ((match = /^copy to (.+)$/.exec(line))) {
+            git.operation = 'copy';
+            git.newPath = unquoteGitPath(match[1]);
+        } else if ((match = /^(?:dis)?similarity index (\d+)%$/.exec(line))) {
+            git.similarityIndex = parseInt(match[1], 10);
+        } else if ((match = /^index [0-9a-f]+\.\.[0-9a-f]+ (\d+)$/.exec(line))) {
+            git.oldMode = git.oldMode ?? match[1];
+            git.newMode = git.newMode ?? match[1];
+        }
+    }
+
+    const body = git.binary ? '' : sectionLines.slice(i).join('\n');
+    const [structured] = body.trim() ? Diff.parsePatch(body) : [];
+
+    if (git.operation === 'create') {
+        git.oldPath = undefined;
+    } else if (git.operation === 'delete') {
+        git.newPath = undefined;
+    }
+
+    return {
+        oldFileName: structured?.oldFileName ?? (git.oldPath ? `a/${git.oldPath}` : '/dev/null'),
+        newFileName: structured?.newFileName ?? (git.newPath ? `b/${git.newPath}` : '/dev/null'),
+        oldHeader: structured?.oldHeader,
+        newHeader: structured?.newHeader,
+        hunks: structured?.hunks ?? [],
+        git,
+    };
+}
+
+/**
+ * Splits `diff --git a/<old> b/<new>`. Paths may contain spaces, so when the
+ * split is ambiguous the one giving identical old and new paths wins.
+ */
+function parseDiffGitLine(line: string): [string | undefined, string | undefined] {
+    const rest = line.substring(DIFF_GIT_PREFIX.length).replace(/\r$/, '');
+    const quoted = /^"((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)"$/.exec(rest);
+    if (quoted) {
+        return [stripPrefix(unquoteGitPath(`"${quoted[1]}"`), 'a/'), stripPrefix(unquoteGitPath(`"${quoted[2]}"`), 'b/')];
+    }
+
+    const candidates: [string, string][] = [];
+    let searchFrom = 0;
+    let separator: number;
+    while ((separator = rest.indexOf(' b/', searchFrom)) !== -1) {
+        candidates.push([rest.substring(0, separator), rest.substring(separator + 1)]);
+        searchFrom = separator + 1;
+    }
+    if (candidates.length === 0) {
+        return [undefined, undefined];
+    }
+    const [oldPath, newPath] = candidates.find(([a, b]) => a.substring(2) === b.substring(2)) ?? candidates[candidates.length - 1];
+    return [stripPrefix(oldPath, 'a/'), stripPrefix(newPath, 'b/')];
+}
+
+function stripPrefix(path: string, prefix: string): string {
+    return path.startsWith(prefix) ? path.substring(prefix.length) : path;
+}
+
+function unquoteGitPath(path: string): string {
+    const trimmed = path.trim();
+    if (!/^".*"$/.test(trimmed)) {
+        return trimmed;
+    }
+    return trimmed.substring(1, trimmed.length - 1).replace(/\\(["\\])/g, '$1').replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+}
+
+/** Drops the `-- ` / version trailer that `git format-patch` appends after the last file. */
+function stripFormatPatchSignature(sectionLines: string[]) {
+    for (let i = sectionLines.length - 1; i >= 0; i--) {
+        if (sectionLines[i] === '-- ') {
+            sectionLines.length = i;
+            return;
+        }
+        if (sectionLines[i].startsWith('@@') || sectionLines[i].startsWith(DIFF_GIT_PREFIX)) {
+            return;
+        }
+    }
+}
+
@@ -0,0 +1,162 @@
+import * as Diff from 'diff';
+
+export interface HunkApplyResult {
+    hunk: Diff.StructuredPatchHunk;
+    /** Position of the hunk in the original patch. */
+    index: number;
+    applied: boolean;
+}
+
+export interface PartialApplyResult {
+    /** Source with every hunk that fitted applied. */
+    content: string;
+    hunkResults: HunkApplyResult[];
+}
+
+export function formatHunkHeader(hunk: Diff.StructuredPatchHunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Applies the hunks of a patch one at a time, so that a hunk which does not fit
+ * does not prevent the others from being applied. The start line of every later
+ * hunk is shifted by the lines added or removed by the hunks applied before it,
+ * and by nothing for hunks that were left out.
+ */
+export function applyHunksIndividually(source: string, patch: Diff.StructuredPatch, options: Diff.ApplyPatchOptions = { fuzzFactor: 2 }): PartialApplyResult {
+    let content = source;
+    let lineDelta = 0;
+    const hunkResults: HunkApplyResult[] = [];
+
+    patch.hunks.forEach((hunk, index) => {
+        const shiftedHunk: Diff.StructuredPatchHunk = {
+            ...hunk,
+            oldStart: hunk.oldStart + lineDelta,
+        };
+        const result = Diff.applyPatch(content, { ...patch, hunks: [shiftedHunk] }, options);
+        if (result === false) {
+            hunkResults.push({ hunk, index, applied: false });
+            return;
+        }
+        content = result;
+        lineDelta += hunk.newLines - hunk.oldLines;
+        hunkResults.push({ hunk, index, applied: true });
+    });
+
+    return { content, hunkResults };
+}
+
+/**
+ * Returns a copy of `patch` that only contains the hunks at `hunkIndices`. The
+ * old-side positions stay as they are, since they refer to the unchanged source;
+ * the new-side start of every kept hunk is recomputed from the line counts of the
+ * kept hunks before it, so the result is a consistent patch on its own.
+ */
+export function selectHunks(patch: Diff.StructuredPatch, hunkIndices: number[]): Diff.StructuredPatch {
+    const selected = new Set(hunkIndices);
+    let lineDelta = 0;
+    const hunks: Diff.StructuredPatchHunk[] = [];
+
+    patch.hunks.forEach((hunk, index) => {
+        if (!selected.has(index)) {
+            return;
+        }
+        hunks.push({ ...hunk, lines: [...hunk.lines], newStart: hunk.oldStart + lineDelta });
+        lineDelta += hunk.newLines - hunk.oldLines;
+    });
+
+    return { ...patch, hunks };
+}
+
+/**
+ * Like {@link applyHunksIndividually}, but every hunk that does not fit is
+ * written into the content as a conflict block at the position in its header:
+ * the lines currently there as the current side and the hunk's new lines as the
+ * incoming side, so VS Code's merge conflict actions can be used to resolve it.
+ */
+export function applyHunksWithConflictMarkers(source: string, patch: Diff.StructuredPatch, options: Diff.ApplyPatchOptions = { fuzzFactor: 2 }): PartialApplyResult {
+    let content = source;
+    let lineDelta = 0;
+    const hunkResults: HunkApplyResult[] = [];
+
+    patch.hunks.forEach((hunk, index) => {
+        const shiftedHunk: Diff.StructuredPatchHunk = { ...hunk, oldStart: hunk.oldStart + lineDelta };
+        const result = Diff.applyPatch(content, { ...patch, hunks: [shiftedHunk] }, options);
+        if (result !== false) {
+            content = result;
+            lineDelta += hunk.newLines - hunk.oldLines;
+            hunkResults.push({ hunk, index, applied: true });
+            return;
+        }
+
+        const lines = content.split('\n');
+        const hasFinalNewline = lines.length > 0 && lines[lines.length - 1] === '';
+        const lastLine = hasFinalNewline ? lines.length - 1 : lines.length;
+        const start = Math.min(Math.max(shiftedHunk.oldStart - 1, 0), lastLine);
+        const end = Math.min(start + hunk.oldLines, lastLine);
+        const currentSide = lines.slice(start, end);
+        const incomingSide = hunk.lines.filter(line => line[0] === ' ' || line[0] === '+').map(line => line.substring(1));
+        const conflictBlock = [
+            '<<<<<<< Current (workspace)',
+            ...currentSide,
+            '=======',
+            ...incomingSide,
+            `>>>>>>> Patch (hunk ${index + 1} ${formatHunkHeader(hunk)})`,
+        ];
+        lines.splice(start, end - start, ...conflictBlock);
+        content = lines.join('\n');
+        lineDelta += conflictBlock.length - currentSide.length;
+        hunkResults.push({ hunk, index, applied: false });
+    });
+
+    return { content, hunkResults };
+}
+
+/** Formats hunks that could not be applied as a `.rej` file, the way `git apply --reject` does. */
+export function formatRejectFile(patch: Diff.StructuredPatch, rejectedHunks: Diff.StructuredPatchHunk[]): string {
+    const lines = [`--- ${patch.oldFileName}`, `+++ ${patch.newFileName}`];
+    for (const hunk of rejectedHunks) {
+        lines.push(formatHunkHeader(hunk), ...hunk.lines);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/** A replacement of the text between two offsets of a document. */
+export interface TextReplacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Finds the smallest set of whole-line replacements that turn `original` into
+ * `updated`, one per changed region, so that an editor can apply a patch as
+ * a few small edits instead of replacing the whole document.
+ */
+export function computeLineReplacements(original: string, updated: string): TextReplacement[] {
+    const replacements: TextReplacement[] = [];
+    let offset = 0;
+    let current: TextReplacement | undefined;
+
+    for (const change of Diff.diffLines(original, updated)) {
+        if (!change.added && !change.removed) {
+            if (current) {
+                replacements.push(current);
+                current = undefined;
+            }
+            offset += change.value.length;
+            continue;
+        }
+        current ??= { start: offset, end: offset, text: '' };
+        if (change.removed) {
+            offset += change.value.length;
+            current.end = offset;
+        } else {
+            current.text += change.value;
+        }
+    }
+    if (current) {
+        replacements.push(current);
+    }
+    return replacements;
+}
@@ -0,0 +1,266 @@
+import * as Diff from 'diff';
+import { HUNK_HEADER_REGEX, recoverDiff } from './diffRecovery';
+import { parseGitAwarePatch, ParsedFilePatch, patchHasChanges } from './gitPatch';
+
+export type InputFormatId = 'unified-diff' | 'search-replace' | 'full-file';
+
+export interface InputParseResult {
+    patches: ParsedFilePatch[];
+    /** Repairs made to get the input into shape, to be shown to the user. */
+    repairs: string[];
+}
+
+/**
+ * A text format that edits can be pasted in. Every format turns its input into
+ * the same per-file patches, so preview, review and apply work the same for all.
+ */
+export interface InputFormat {
+    id: InputFormatId;
+    label: string;
+    /** Cheap check whether the text is in this format. */
+    detect(text: string): boolean;
+    /** Parses the text. Throws if the text cannot be parsed at all. */
+    parse(text: string): InputParseResult;
+}
+
+const SEARCH_MARKER = /^\s*<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^\s*={5,9}\s*$/;
+const REPLACE_MARKER = /^\s*>{5,9} REPLACE\s*$/;
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})(.*)$/;
+/** A line naming a file: `src/a.ts`, `**src/a.ts**`, `### File: src/a.ts`, `// path: src/a.ts` and the like. */
+const PATH_LINE_REGEX = /^\s*(?:#+\s*|\/\/\s*|--\s*|;\s*)?(?:\*\*|__)?`?(?:(?:file|path|filename)\s*:\s*)?`?([\w@$~.\-]+(?:[\/\\][\w@$~.\-]+)*\.[\w]+|[\w@$~.\-]+(?:[\/\\][\w@$~.\-]+)+)`?(?:\*\*|__)?:?\s*$/i;
+
+export function cleanDiffInput(rawDiffText: string): string {
+    let cleanDiffText = rawDiffText.trim();
+    if (cleanDiffText.startsWith('```diff')) {
+        cleanDiffText = cleanDiffText.substring('```diff'.length);
+    }
+    if (cleanDiffText.endsWith('```')) {
+        cleanDiffText = cleanDiffText.substring(0, cleanDiffText.length - '```'.length);
+    }
+    return cleanDiffText.trim();
+}
+
+export const unifiedDiffFormat: InputFormat = {
+    id: 'unified-diff',
+    label: 'unified diff',
+    detect: text => /^(@@|diff --git |--- |\+\+\+ |Index: )/m.test(text),
+    parse: text => {
+        let patches: ParsedFilePatch[] | undefined;
+        let parseError: unknown;
+        const cleanedText = cleanDiffInput(text);
+        try {
+            patches = parseGitAwarePatch(cleanedText);
+        } catch (e) {
+            parseError = e;
+        }
+
+        if (!patches || !patches.some(patchHasChanges) || hasMalformedHunkHeader(cleanedText, patches)) {
+            const recovered = recoverDiff(text);
+            try {
+                const recoveredPatches = parseGitAwarePatch(recovered.text);
+                if (recoveredPatches.some(patchHasChanges)) {
+                    recoveredPatches.forEach(patch => patch.recovered = true);
+                    return { patches: recoveredPatches, repairs: recovered.repairs };
+                }
+            } catch (e) {
+                console.error("Error parsing recovered diff:", e);
+            }
+        }
+
+        if (parseError !== undefined) {
+            throw parseError;
+        }
+        return { patches: patches ?? [], repairs: [] };
+    },
+};
+
+/**
+ * jsdiff accepts hunk headers without line numbers, such as `@@ ... @@`, and
+ * leaves the start lines unset, so those hunks never apply without recovery.
+ */
+function hasMalformedHunkHeader(text: string, patches: ParsedFilePatch[]): boolean {
+    return text.split('\n').some(line => line.startsWith('@@') && !HUNK_HEADER_REGEX.test(line.trimEnd()))
+        || patches.some(patch => patch.hunks.some(hunk => !Number.isFinite(hunk.oldStart) || !Number.isFinite(hunk.newStart)));
+}
+
+export const searchReplaceFormat: InputFormat = {
+    id: 'search-replace',
+    label: 'SEARCH/REPLACE blocks',
+    detect: text => text.split('\n').some(line => SEARCH_MARKER.test(line)) && text.split('\n').some(line => REPLACE_MARKER.test(line)),
+    parse: text => {
+        const lines = text.replace(/\r\n/g, '\n').split('\n');
+        const patches: ParsedFilePatch[] = [];
+        let currentPath: string | undefined;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (!SEARCH_MARKER.test(line)) {
+                const pathMatch = FENCE_REGEX.test(line) ? undefined : PATH_LINE_REGEX.exec(line);
+                if (pathMatch) {
+                    currentPath = normalizePath(pathMatch[1]);
+                }
+                continue;
+            }
+
+            const searchLines: string[] = [];
+            const replaceLines: string[] = [];
+            let j = i + 1;
+            for (; j < lines.length && !DIVIDER_MARKER.test(lines[j]); j++) {
+                searchLines.push(lines[j]);
+            }
+            for (j++; j < lines.length && !REPLACE_MARKER.test(lines[j]); j++) {
+                replaceLines.push(lines[j]);
+            }
+            if (j >= lines.length) {
+                throw new Error(`SEARCH block at line ${i + 1} is not closed with '>>>>>>> REPLACE'.`);
+            }
+            if (!currentPath) {
+                throw new Error(`SEARCH block at line ${i + 1} has no file path before it.`);
+            }
+            patches.push(searchReplaceToPatch(currentPath, searchLines, replaceLines));
+            i = j;
+        }
+        return { patches, repairs: [] };
+    },
+};
+
+export const fullFileFormat: InputFormat = {
+    id: 'full-file',
+    label: 'full file blocks',
+    detect: text => findFullFileBlocks(text).length > 0,
+    parse: text => {
+        const patches = findFullFileBlocks(text).map(block => {
+            const content = block.lines.join('\n') + '\n';
+            const patch: ParsedFilePatch = {
+                oldFileName: `a/${block.path}`,
+                newFileName: `b/${block.path}`,
+                oldHeader: undefined,
+                newHeader: undefined,
+                hunks: [],
+                fullContent: content,
+            };
+            return patch;
+        });
+        return { patches, repairs: [] };
+    },
+};
+
+const inputFormats: InputFormat[] = [searchReplaceFormat, unifiedDiffFormat, fullFileFormat];
+
+/**
+ * Adds an input format. Formats are tried in the order they were registered,
+ * after the built-in ones.
+ */
+export function registerInputFormat(format: InputFormat) {
+    inputFormats.push(format);
+}
+
+/** Picks the format of the pasted text. Falls back to unified diff, whose errors are the most helpful. */
+export function detectInputFormat(text: string): InputFormat {
+    return inputFormats.find(format => format.detect(text)) ?? unifiedDiffFormat;
+}
+
+/**
+ * Turns a whole-file replacement into hunks against the current content of the
+ * file, so that it can be previewed, reviewed and applied like any other patch.
+ */
+export function fullFileToHunks(currentContent: string, patch: ParsedFilePatch): ParsedFilePatch {
+    if (patch.fullContent === undefined) {
+        return patch;
+    }
+    const structured = Diff.structuredPatch(patch.oldFileName, patch.newFileName, currentContent, patch.fullContent, '', '', { context: 3 });
+    return { ...patch, hunks: structured.hunks, fullContent: undefined };
+}
+
+function searchReplaceToPatch(path: string, searchLines: string[], replaceLines: string[]): ParsedFilePatch {
+    const isNewFile = searchLines.every(line => line.trim() === '');
+    const oldLines = isNewFile ? [] : searchLines;
+    return {
+        oldFileName: isNewFile ? '/dev/null' : `a/${path}`,
+        newFileName: `b/${path}`,
+        oldHeader: undefined,
+        newHeader: undefined,
+        hunks: [{
+            oldStart: 1,
+            oldLines: oldLines.length,
+            newStart: 1,
+            newLines: replaceLines.length,
+            lines: [...oldLines.map(line => '-' + line), ...replaceLines.map(line => '+' + line)],
+        }],
+        recovered: !isNewFile,
+    };
+}
+
+interface FullFileBlock {
+    path: string;
+    lines: string[];
+}
+
+/**
+ * Finds fenced code blocks that name the file they contain, either on the line
+ * before the fence, in the fence info string (```ts src/a.ts or title="src/a.ts")
+ * or in a path comment on the first line of the block. Diff blocks are ignored.
+ */
+function findFullFileBlocks(text: string): FullFileBlock[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const blocks: FullFileBlock[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const open = FENCE_REGEX.exec(lines[i]);
+        if (!open) {
+            continue;
+        }
+        const fence = open[1];
+        const info = open[2].trim();
+        let j = i + 1;
+        const body: string[] = [];
+        for (; j < lines.length; j++) {
+            const trimmed = lines[j].trim();
+            if (trimmed.startsWith(fence) && trimmed.replace(/[`~]/g, '') === '') {
+                break;
+            }
+            body.push(lines[j]);
+        }
+
+        const language = info.split(/\s+/)[0].toLowerCase();
+        if (['diff', 'patch', 'udiff'].includes(language) || body.some(line => line.startsWith('@@') || SEARCH_MARKER.test(line))) {
+            i = j;
+            continue;
+        }
+
+        let path = pathFromInfoString(info);
+        if (!path && i > 0) {
+            const previous = lines.slice(0, i).reverse().find(line => line.trim() !== '');
+            const match = previous !== undefined ? PATH_LINE_REGEX.exec(previous) : null;
+            path = match ? match[1] : undefined;
+        }
+        if (!path && body.length > 0) {
+            const firstLine = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:(?:file|path|filename)\s*:\s*)?([\w@$~.\-]+(?:[\/\\][\w@$~.\-]+)*\.[\w]+)\s*(?:\*\/|-->)?\s*$/i.exec(body[0]);
+            if (firstLine) {
+                path = firstLine[1];
+                body.shift();
+            }
+        }
+        if (path) {
+            blocks.push({ path: normalizePath(path), lines: body });
+        }
+        i = j;
+    }
+    return blocks;
+}
+
+function pathFromInfoString(info: string): string | undefined {
+    const titled = /(?:title|file|path|filename)=["']?([^"'\s]+)["']?/i.exec(info);
+    if (titled) {
+        return titled[1];
+    }
+    const words = info.split(/\s+/).filter(Boolean);
+    // The first word is the language unless it is itself a path, as in ```src/a.ts
+    const candidate = words.find((word, index) => /\.\w+:?$/.test(word) && (index > 0 || /[\/\\]/.test(word)));
+    return candidate?.replace(/:$/, '');
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { FileOperation, isBinaryPatch, ParsedFilePatch, patchOperation } from './gitPatch';
+import { PatchFileSystem } from './PatchEngine';
+import { patchSourcePath, TargetResolver } from './TargetResolver';
+
+/** One file of a parsed diff, as listed in the panel while the diff is typed. */
+export interface PatchFileSummary {
+    /** Position of the patch in the parsed diff, for the per-file preview and apply actions. */
+    index: number;
+    path: string;
+    /** Where the file ends up, for renames and copies. */
+    newPath?: string;
+    operation: FileOperation;
+    additions: number;
+    deletions: number;
+    /** True for whole-file blocks, whose deletions are not known until they are compared with the target. */
+    wholeFile: boolean;
+    binary: boolean;
+    /** Whether the target is found in the workspace without asking. */
+    resolution: 'resolved' | 'ambiguous' | 'notFound';
+    /** The workspace file the patch applies to, when resolved. */
+    target?: string;
+}
+
+/** Lines a patch adds and removes. Whole-file blocks count every line as added. */
+export function countChangedLines(patch: ParsedFilePatch): { additions: number; deletions: number } {
+    if (patch.fullContent !== undefined) {
+        return { additions: patch.fullContent.split('\n').length - (patch.fullContent.endsWith('\n') ? 1 : 0), deletions: 0 };
+    }
+    let additions = 0;
+    let deletions = 0;
+    for (const line of patch.hunks.flatMap(hunk => hunk.lines)) {
+        if (line.startsWith('+')) {
+            additions++;
+        } else if (line.startsWith('-')) {
+            deletions++;
+        }
+    }
+    return { additions, deletions };
+}
+
+/** Summarizes each file of a diff without asking anything or reading the targets. */
+export async function summarizePatches(patches: ParsedFilePatch[], fs: PatchFileSystem): Promise<PatchFileSummary[]> {
+    const resolver = await TargetResolver.create(patches, fs);
+    const summaries: PatchFileSummary[] = [];
+    for (const [index, patch] of patches.entries()) {
+        const stripped = (name: string) => resolver.relativePath(name) ?? name.replace(/^[ab]\//, '');
+        const patchPath = patchSourcePath(patch);
+        let operation = patchOperation(patch);
+        const { additions, deletions } = countChangedLines(patch);
+
+        let resolution: PatchFileSummary['resolution'] = 'notFound';
+        let target: string | undefined;
+        if (patchPath) {
+            let result = operation === 'create' ? await resolver.resolveNew(patchPath) : await resolver.resolveExisting(patchPath);
+            if (result.kind === 'notFound' && patch.fullContent !== undefined) {
+                // Whole files that are not in the workspace yet are created.
+                operation = 'create';
+                result = await resolver.resolveNew(patchPath);
+            }
+            resolution = result.kind;
+            target = result.kind === 'resolved' ? vscode.workspace.asRelativePath(result.uri) : undefined;
+        }
+
+        const renamed = operation === 'rename' || operation === 'copy';
+        summaries.push({
+            index,
+            path: stripped(patchPath ?? (patch.oldFileName || patch.newFileName || 'unknown file')),
+            newPath: renamed ? stripped(patch.newFileName) : undefined,
+            operation,
+            additions,
+            deletions,
+            wholeFile: patch.fullContent !== undefined,
+            binary: isBinaryPatch(patch),
+            resolution,
+            target,
+        });
+    }
+    return summaries;
+}
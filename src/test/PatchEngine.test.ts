@@ -0,0 +1,402 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { NotificationSeverity, PatchEngine, PatchFileSystem, PatchPrompts, PatchRejection, PatchTarget } from '../PatchEngine';
+import { HunkFailureResolution, PlannedFileChange } from '../PatchTransaction';
+import { TargetResolution } from '../TargetResolver';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures');
+const ROOT = vscode.Uri.file(path.resolve('/patch-engine-test'));
+
+function fixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+function fileUri(relativePath: string): vscode.Uri {
+    return vscode.Uri.joinPath(ROOT, relativePath);
+}
+
+/** Serves files from memory, as if `ROOT` were the only workspace folder. */
+class MemoryFileSystem implements PatchFileSystem {
+    public readonly folders = [ROOT];
+    public readonly files = new Map<string, string>();
+    public readonly dirtyDocuments = new Map<string, vscode.TextDocument>();
+
+    constructor(files: Record<string, string> = {}) {
+        for (const [relativePath, content] of Object.entries(files)) {
+            this.files.set(fileUri(relativePath).toString(), content);
+        }
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileType | undefined> {
+        const key = uri.toString();
+        if (this.files.has(key)) {
+            return vscode.FileType.File;
+        }
+        return [...this.files.keys()].some(file => file.startsWith(key + '/')) ? vscode.FileType.Directory : undefined;
+    }
+
+    /** Matches the files whose path ends with the pattern after its leading `**`. */
+    public async findFiles(include: string, maxResults: number): Promise<vscode.Uri[]> {
+        const suffix = '/' + include.replace(/^\*\*\//, '').replace(/\[(.)\]/g, '$1');
+        return [...this.files.keys()].filter(file => file.endsWith(suffix)).slice(0, maxResults).map(file => vscode.Uri.parse(file));
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const content = this.files.get(uri.toString());
+        if (content === undefined) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return new TextEncoder().encode(content);
+    }
+
+    public findDirtyDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+        return this.dirtyDocuments.get(uri.toString());
+    }
+}
+
+/** Answers every question from preset values and records what it was told. */
+class ScriptedPrompts implements PatchPrompts {
+    public nonInteractive = false;
+    public overwrite = false;
+    public hunkFailureResolution: HunkFailureResolution = 'abort';
+    public chosenTarget: vscode.Uri | undefined;
+    public readonly notifications: { severity: NotificationSeverity; message: string }[] = [];
+    public readonly repairs: string[] = [];
+    public readonly targetQuestions: string[] = [];
+
+    public notify(severity: NotificationSeverity, message: string) {
+        this.notifications.push({ severity, message });
+    }
+
+    public reportRepairs(repairs: string[]) {
+        this.repairs.push(...repairs);
+    }
+
+    public async chooseTarget(displayFileName: string, _resolution: Exclude<TargetResolution, { kind: 'resolved' }>, _isNewFile: boolean): Promise<vscode.Uri | undefined> {
+        this.targetQuestions.push(displayFileName);
+        return this.chosenTarget;
+    }
+
+    public async confirmOverwrite(_message: string): Promise<boolean> {
+        return this.overwrite;
+    }
+
+    public async chooseHunkFailureResolution(_relativePath: string, _failedCount: number, _totalCount: number): Promise<HunkFailureResolution> {
+        return this.hunkFailureResolution;
+    }
+}
+
+function target(relativePath: string, options: Partial<PatchTarget> = {}): PatchTarget {
+    return { uri: fileUri(relativePath), isNewFile: false, isDeletedFile: false, displayFileName: relativePath, ...options };
+}
+
+function assertPlanned(result: PlannedFileChange[] | PatchRejection): PlannedFileChange[] {
+    if (result instanceof PatchRejection) {
+        assert.fail(`Expected the patch to apply, but it was rejected: ${result.reason}`);
+    }
+    return result;
+}
+
+const GREETING = "export function greet(name: string) {\n    return 'Hello ' + name;\n}\n";
+const PATCHED_GREETING = 'export function greet(name: string) {\n    return `Hello, ${name}!`;\n}\n';
+const LIST = "export const items = [\n    'apple',\n    'banana',\n    'cherry',\n];\n";
+
+suite('PatchEngine', () => {
+    let files: MemoryFileSystem;
+    let prompts: ScriptedPrompts;
+    let engine: PatchEngine;
+
+    setup(() => {
+        files = new MemoryFileSystem({
+            'src/greeting.ts': GREETING,
+            'src/math.ts': 'export function add(a: number, b: number) {\n    return a + b;\n}\n',
+            'src/removed.ts': 'export const removed = true;\nexport const count = 1;\n',
+            'src/list.ts': LIST,
+        });
+        prompts = new ScriptedPrompts();
+        engine = new PatchEngine(files, prompts);
+    });
+
+    suite('parse', () => {
+        test('splits a multi-file diff into one patch per file', () => {
+            const { format, patches, error } = engine.parse(fixture('multi-file.patch'));
+            assert.strictEqual(error, undefined);
+            assert.strictEqual(format.id, 'unified-diff');
+            assert.deepStrictEqual(patches.map(patch => patch.newFileName), ['b/src/greeting.ts', 'b/src/math.ts']);
+        });
+
+        test('reads new and deleted files from git headers', () => {
+            const { patches } = engine.parse(fixture('new-and-deleted.patch'));
+            assert.strictEqual(patches.length, 2);
+            assert.strictEqual(patches[0].oldFileName, '/dev/null');
+            assert.strictEqual(patches[1].newFileName, '/dev/null');
+        });
+
+        test('takes the diff out of a fenced block in a chat answer', () => {
+            const { patches, error } = engine.parse(fixture('fenced.md'));
+            assert.strictEqual(error, undefined);
+            assert.strictEqual(patches.length, 1);
+            assert.strictEqual(patches[0].hunks.length, 1);
+        });
+
+        test('repairs hunk headers with wrong line counts', () => {
+            const { patches, repairs } = engine.parse(fixture('malformed-header.patch'));
+            assert.strictEqual(patches.length, 1);
+            assert.ok(patches[0].recovered);
+            assert.ok(repairs.length > 0);
+        });
+
+        test('recovers hunks whose header has no line numbers', () => {
+            const { patches, repairs } = engine.parse(fixture('bare-header.patch'));
+            assert.strictEqual(patches.length, 1);
+            assert.ok(patches[0].recovered);
+            assert.ok(Number.isFinite(patches[0].hunks[0].oldStart));
+            assert.ok(repairs.length > 0);
+        });
+
+        test('reads SEARCH/REPLACE blocks', () => {
+            const { format, patches } = engine.parse("src/greeting.ts\n<<<<<<< SEARCH\n    return 'Hello ' + name;\n=======\n    return `Hello, ${name}!`;\n>>>>>>> REPLACE\n");
+            assert.strictEqual(format.id, 'search-replace');
+            assert.strictEqual(patches.length, 1);
+        });
+
+        test('returns an error instead of throwing on input it cannot read', () => {
+            const { patches, error } = engine.parse('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE\n');
+            assert.strictEqual(patches.length, 0);
+            assert.match(error ?? '', /no file path/);
+        });
+    });
+
+    suite('planPatch', () => {
+        test('patches every file of a multi-file diff', async () => {
+            const [greeting, math] = engine.parse(fixture('multi-file.patch')).patches;
+            const [greetingChange] = assertPlanned(await engine.planPatch(greeting, target('src/greeting.ts')));
+            const [mathChange] = assertPlanned(await engine.planPatch(math, target('src/math.ts')));
+            assert.strictEqual(greetingChange.kind, 'modify');
+            assert.strictEqual(greetingChange.newContent, PATCHED_GREETING);
+            assert.ok(mathChange.newContent?.includes('export function subtract'));
+        });
+
+        test('creates new files and deletes removed ones', async () => {
+            const [added, removed] = engine.parse(fixture('new-and-deleted.patch')).patches;
+            const [addedChange] = assertPlanned(await engine.planPatch(added, target('src/added.ts', { isNewFile: true })));
+            const [removedChange] = assertPlanned(await engine.planPatch(removed, target('src/removed.ts', { isDeletedFile: true })));
+            assert.strictEqual(addedChange.kind, 'create');
+            assert.strictEqual(addedChange.newContent, 'export const added = true;\nexport const count = 2;\n');
+            assert.strictEqual(removedChange.kind, 'delete');
+        });
+
+        test('does not overwrite an existing file with a new-file patch in non-interactive mode', async () => {
+            files.files.set(fileUri('src/added.ts').toString(), 'existing\n');
+            prompts.nonInteractive = true;
+            const [added] = engine.parse(fixture('new-and-deleted.patch')).patches;
+            const result = await engine.planPatch(added, target('src/added.ts', { isNewFile: true }));
+            assert.ok(result instanceof PatchRejection);
+            assert.match(result.reason, /already exists/);
+        });
+
+        test('overwrites an existing file with a new-file patch once confirmed', async () => {
+            files.files.set(fileUri('src/added.ts').toString(), 'existing\n');
+            prompts.overwrite = true;
+            const [added] = engine.parse(fixture('new-and-deleted.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(added, target('src/added.ts', { isNewFile: true })));
+            assert.strictEqual(change.kind, 'modify');
+            assert.strictEqual(change.newContent, 'export const added = true;\nexport const count = 2;\n');
+        });
+
+        test('finds hunks whose line numbers are off', async () => {
+            files.files.set(fileUri('src/list.ts').toString(), '// Fruit\n// in alphabetical order\n\n' + LIST);
+            const [patch] = engine.parse(fixture('offset.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/list.ts')));
+            assert.strictEqual(change.newContent, "// Fruit\n// in alphabetical order\n\nexport const items = [\n    'apple',\n    'blueberry',\n    'cherry',\n];\n");
+        });
+
+        test('applies hunks whose context differs slightly from the file', async () => {
+            files.files.set(fileUri('src/list.ts').toString(), LIST.replace('];', '] as const;'));
+            const [patch] = engine.parse(fixture('offset.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/list.ts')));
+            assert.strictEqual(change.newContent, LIST.replace('banana', 'blueberry').replace('];', '] as const;'));
+        });
+
+        test('keeps the CRLF line endings of the file', async () => {
+            files.files.set(fileUri('src/greeting.ts').toString(), GREETING.replace(/\n/g, '\r\n'));
+            const [patch] = engine.parse(fixture('multi-file.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, PATCHED_GREETING.replace(/\n/g, '\r\n'));
+        });
+
+        test('applies a diff that was pasted with CRLF line endings', async () => {
+            const [patch] = engine.parse(fixture('multi-file.patch').replace(/\n/g, '\r\n')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, PATCHED_GREETING);
+        });
+
+        test('places the hunks of a repaired diff by their context', async () => {
+            files.files.set(fileUri('src/greeting.ts').toString(), '// Greetings\n\n' + GREETING);
+            const [patch] = engine.parse(fixture('malformed-header.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, '// Greetings\n\n' + PATCHED_GREETING);
+        });
+
+        test('places hunks without line numbers by their context', async () => {
+            const [patch] = engine.parse(fixture('bare-header.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, PATCHED_GREETING);
+        });
+
+        test('applies the diff from a fenced block', async () => {
+            const [patch] = engine.parse(fixture('fenced.md')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, PATCHED_GREETING);
+        });
+
+        test('patches the unsaved text of an open editor rather than the file on disk', async () => {
+            const text = '// unsaved\n' + GREETING;
+            files.dirtyDocuments.set(fileUri('src/greeting.ts').toString(), { getText: () => text, version: 7 } as vscode.TextDocument);
+            const [patch] = engine.parse(fixture('multi-file.patch')).patches;
+            const [change] = assertPlanned(await engine.planPatch(patch, target('src/greeting.ts')));
+            assert.strictEqual(change.newContent, '// unsaved\n' + PATCHED_GREETING);
+            assert.strictEqual(change.documentVersion, 7);
+        });
+
+        test('rejects a patch whose target is missing', async () => {
+            const [patch] = engine.parse(fixture('multi-file.patch')).patches;
+            const result = await engine.planPatch(patch, target('src/missing.ts'));
+            assert.ok(result instanceof PatchRejection);
+            assert.match(result.reason, /not found/);
+            assert.strictEqual(prompts.notifications[0].severity, 'error');
+        });
+
+        test('rejects a patch that does not match the file when failed hunks are aborted', async () => {
+            files.files.set(fileUri('src/greeting.ts').toString(), 'something else entirely\n');
+            const [patch] = engine.parse(fixture('multi-file.patch')).patches;
+            const result = await engine.planPatch(patch, target('src/greeting.ts'));
+            assert.ok(result instanceof PatchRejection);
+            assert.match(result.reason, /Failed to apply patch/);
+        });
+
+        test('writes hunks that do not apply to a .rej file when asked to', async () => {
+            files.files.set(fileUri('src/math.ts').toString(), 'export function add(a: number, b: number) {\n    return a + b;\n}\n');
+            const diff = '--- a/src/math.ts\n+++ b/src/math.ts\n@@ -1,3 +1,3 @@\n-export function add(a: number, b: number) {\n+export function add(a: number, b: number): number {\n     return a + b;\n }\n' +
+                '@@ -40,3 +40,3 @@\n function unrelated() {\n-    return 1;\n+    return 2;\n }\n';
+            prompts.hunkFailureResolution = 'rejectFile';
+            const [patch] = engine.parse(diff).patches;
+            const [change, rejectChange] = assertPlanned(await engine.planPatch(patch, target('src/math.ts')));
+            assert.ok(change.newContent?.startsWith('export function add(a: number, b: number): number {'));
+            assert.strictEqual(change.hunkOutcome?.applied, 1);
+            assert.strictEqual(change.hunkOutcome?.failed.length, 1);
+            assert.strictEqual(rejectChange.uri.toString(), fileUri('src/math.ts.rej').toString());
+            assert.ok(rejectChange.newContent?.includes('+    return 2;'));
+        });
+
+        test('builds on changes already planned for the same file', async () => {
+            const [first] = engine.parse(fixture('offset.patch')).patches;
+            const [second] = engine.parse("--- a/src/list.ts\n+++ b/src/list.ts\n@@ -2,3 +2,3 @@\n     'apple',\n-    'blueberry',\n+    'blackberry',\n     'cherry',\n").patches;
+            const pending = new Map<string, PlannedFileChange>();
+            const [firstChange] = assertPlanned(await engine.planPatch(first, target('src/list.ts')));
+            pending.set(firstChange.uri.toString(), firstChange);
+            const [secondChange] = assertPlanned(await engine.planPatch(second, target('src/list.ts'), pending));
+            assert.strictEqual(secondChange.newContent, LIST.replace('banana', 'blackberry'));
+        });
+    });
+
+    suite('plan', () => {
+        test('plans every file of a diff against the given targets', async () => {
+            const patches = engine.parse(fixture('multi-file.patch')).patches;
+            const resolvedTargets = new Map([[patches[0], target('src/greeting.ts')], [patches[1], target('src/math.ts')]]);
+            let counts: number[][] = [];
+            const plan = await engine.plan(patches, {
+                resolvedTargets,
+                beforeReading: async actions => {
+                    counts = actions.map(action => [action.additions, action.deletions]);
+                    return undefined;
+                },
+            });
+            assert.strictEqual(plan.error, undefined);
+            assert.strictEqual(plan.failed.length, 0);
+            assert.strictEqual(plan.changes.length, 2);
+            assert.deepStrictEqual(counts, [[1, 1], [4, 0]]);
+        });
+
+        test('fails only the files that do not apply and keeps planning the rest', async () => {
+            files.files.set(fileUri('src/math.ts').toString(), 'unrelated\n');
+            const patches = engine.parse(fixture('multi-file.patch')).patches;
+            const resolvedTargets = new Map([[patches[0], target('src/greeting.ts')], [patches[1], target('src/math.ts')]]);
+            const plan = await engine.plan(patches, { resolvedTargets });
+            assert.strictEqual(plan.files.length, 1);
+            assert.strictEqual(plan.failed.length, 1);
+            assert.strictEqual(plan.failed[0].path, 'src/math.ts');
+        });
+
+        test('stops before reading any file when beforeReading refuses', async () => {
+            const patches = engine.parse(fixture('multi-file.patch')).patches;
+            const resolvedTargets = new Map([[patches[0], target('src/greeting.ts')], [patches[1], target('src/math.ts')]]);
+            let askedFor: string[] = [];
+            const plan = await engine.plan(patches, {
+                resolvedTargets,
+                beforeReading: async actions => {
+                    askedFor = actions.map(action => action.uri.toString());
+                    return 'The files have uncommitted changes.';
+                },
+            });
+            assert.deepStrictEqual(askedFor, [fileUri('src/greeting.ts').toString(), fileUri('src/math.ts').toString()]);
+            assert.strictEqual(plan.error, 'The files have uncommitted changes.');
+            assert.strictEqual(plan.changes.length, 0);
+            assert.strictEqual(plan.failed.length, 2);
+        });
+
+        test('skips binary patches and patches without changes', async () => {
+            const patches = engine.parse(
+                'diff --git a/logo.png b/logo.png\nindex 1234567..89abcde 100644\nBinary files a/logo.png and b/logo.png differ\n' +
+                fixture('multi-file.patch')
+            ).patches;
+            const resolvedTargets = new Map([[patches[1], target('src/greeting.ts')], [patches[2], target('src/math.ts')]]);
+            const plan = await engine.plan(patches, { resolvedTargets });
+            assert.deepStrictEqual(plan.skipped.map(file => file.path), ['logo.png']);
+            assert.strictEqual(plan.changes.length, 2);
+        });
+    });
+
+    suite('resolveTarget', () => {
+        test('finds the files of a diff in the workspace folder without asking', async () => {
+            const plan = await engine.plan(engine.parse(fixture('multi-file.patch')).patches);
+            assert.deepStrictEqual(prompts.targetQuestions, []);
+            assert.deepStrictEqual(plan.changes.map(change => change.uri.toString()), [fileUri('src/greeting.ts').toString(), fileUri('src/math.ts').toString()]);
+        });
+
+        test('asks about a file that only matches by name', async () => {
+            const [patch] = engine.parse(fixture('multi-file.patch').replace(/src\/greeting\.ts/g, 'lib/greeting.ts')).patches;
+            const plan = await engine.plan([patch]);
+            assert.deepStrictEqual(prompts.targetQuestions, ['lib/greeting.ts']);
+            assert.ok(plan.cancelled);
+        });
+
+        test('skips unresolved files without asking in non-interactive mode', async () => {
+            prompts.nonInteractive = true;
+            const [patch] = engine.parse('--- a/does/not/exist.ts\n+++ b/does/not/exist.ts\n@@ -1 +1 @@\n-a\n+b\n').patches;
+            const plan = await engine.plan([patch]);
+            assert.strictEqual(plan.skipped.length, 1);
+            assert.strictEqual(plan.failed.length, 0);
+            assert.deepStrictEqual(prompts.targetQuestions, []);
+        });
+
+        test('asks for the target of an unresolved file and cancels the file when none is picked', async () => {
+            const [patch] = engine.parse('--- a/does/not/exist.ts\n+++ b/does/not/exist.ts\n@@ -1 +1 @@\n-a\n+b\n').patches;
+            const plan = await engine.plan([patch]);
+            assert.deepStrictEqual(prompts.targetQuestions, ['does/not/exist.ts']);
+            assert.strictEqual(plan.failed.length, 1);
+            assert.match(plan.failed[0].reason ?? '', /No file selected/);
+        });
+
+        test('uses the file picked for an unresolved target', async () => {
+            prompts.chosenTarget = fileUri('src/greeting.ts');
+            const [patch] = engine.parse(fixture('multi-file.patch').replace(/src\/greeting\.ts/g, 'lib/hello.ts')).patches;
+            const plan = await engine.plan([patch]);
+            assert.strictEqual(plan.failed.length, 0);
+            assert.strictEqual(plan.changes[0].uri.toString(), fileUri('src/greeting.ts').toString());
+            assert.strictEqual(plan.changes[0].newContent, PATCHED_GREETING);
+        });
+    });
+});
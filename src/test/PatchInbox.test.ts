@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { InboxResultFile, PatchInbox } from '../PatchInbox';
+
+suite('PatchInbox', () => {
+    let root: vscode.Uri;
+    let inbox: PatchInbox;
+
+    function fileUri(relativePath: string): vscode.Uri {
+        return vscode.Uri.joinPath(root, relativePath);
+    }
+
+    async function writeFile(relativePath: string, content: string) {
+        await vscode.workspace.fs.writeFile(fileUri(relativePath), new TextEncoder().encode(content));
+    }
+
+    async function readResult(relativePath: string): Promise<InboxResultFile> {
+        return JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri(relativePath))));
+    }
+
+    /** Resolves once the queue holds `count` patches. */
+    function queued(count: number): Promise<void> {
+        return new Promise(resolve => {
+            if (inbox.patches.length === count) {
+                resolve();
+                return;
+            }
+            const listener = inbox.onDidChange(() => {
+                if (inbox.patches.length === count) {
+                    listener.dispose();
+                    resolve();
+                }
+            });
+        });
+    }
+
+    suiteSetup(async () => {
+        root = vscode.workspace.workspaceFolders![0].uri;
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('patchInbox', true, vscode.ConfigurationTarget.Workspace);
+    });
+
+    suiteTeardown(async () => {
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('patchInbox', undefined, vscode.ConfigurationTarget.Workspace);
+        await vscode.workspace.fs.delete(fileUri('.patches'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+    });
+
+    setup(async () => {
+        await vscode.workspace.fs.delete(fileUri('.patches'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+        await writeFile('.patches/incoming/existing.patch', '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+b\n');
+        inbox = new PatchInbox();
+        await queued(1);
+    });
+
+    teardown(() => {
+        inbox.dispose();
+    });
+
+    test('queues the patches already in the folder and new ones', async () => {
+        await writeFile('.patches/incoming/new.diff', '--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-a\n+b\n');
+        await writeFile('.patches/incoming/notes.txt', 'not a patch');
+        await queued(2);
+        assert.deepStrictEqual(inbox.patches.map(patch => patch.name).sort(), ['.patches/incoming/existing.patch', '.patches/incoming/new.diff']);
+    });
+
+    test('moves applied patches to applied with the result next to them', async () => {
+        const uri = fileUri('.patches/incoming/existing.patch');
+        assert.ok(inbox.take(uri));
+        assert.ok(!inbox.take(uri), 'A patch must not be taken twice.');
+        await inbox.complete(uri, { applied: [{ path: 'a.txt', operation: 'modify' }], skipped: [], failed: [] });
+
+        assert.strictEqual(inbox.patches.length, 0);
+        const result = await readResult('.patches/applied/existing.patch.result.json');
+        assert.strictEqual(result.status, 'applied');
+        assert.strictEqual(result.patchFile, 'existing.patch');
+        assert.deepStrictEqual(result.result?.applied, [{ path: 'a.txt', operation: 'modify' }]);
+        await vscode.workspace.fs.stat(fileUri('.patches/applied/existing.patch'));
+    });
+
+    test('keeps released patches queued to be taken again', async () => {
+        const uri = fileUri('.patches/incoming/existing.patch');
+        inbox.take(uri);
+        inbox.release(uri);
+        assert.strictEqual(inbox.patches.length, 1);
+        assert.ok(inbox.take(uri));
+    });
+
+    test('moves patches that did not apply to rejected with the reason', async () => {
+        const uri = fileUri('.patches/incoming/existing.patch');
+        inbox.take(uri);
+        await inbox.complete(uri, { applied: [], skipped: [], failed: [{ path: 'a.txt', reason: 'Target file not found.' }] });
+
+        const result = await readResult('.patches/rejected/existing.patch.result.json');
+        assert.strictEqual(result.status, 'failed');
+        assert.strictEqual(result.reason, 'a.txt: Target file not found.');
+    });
+
+    test('keeps earlier results when a file name comes back', async () => {
+        const uri = fileUri('.patches/incoming/existing.patch');
+        inbox.take(uri);
+        await inbox.reject(uri);
+        await writeFile('.patches/incoming/existing.patch', '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+c\n');
+        await queued(1);
+        inbox.take(uri);
+        await inbox.reject(uri, 'Not needed.');
+
+        const rejected = (await vscode.workspace.fs.readDirectory(fileUri('.patches/rejected'))).map(([name]) => name);
+        assert.strictEqual(rejected.filter(name => name.endsWith('.patch')).length, 2);
+        assert.strictEqual((await readResult('.patches/rejected/existing.patch.result.json')).reason, 'Rejected by the user.');
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { isFileNotFoundError, PatchTransaction, PlannedFileChange } from '../PatchTransaction';
+
+suite('PatchTransaction', () => {
+    let root: vscode.Uri;
+
+    function fileUri(relativePath: string): vscode.Uri {
+        return vscode.Uri.joinPath(root, relativePath);
+    }
+
+    function create(relativePath: string): PlannedFileChange {
+        return { uri: fileUri(relativePath), kind: 'create', displayFileName: relativePath, newContent: 'new\n' };
+    }
+
+    async function exists(relativePath: string): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(fileUri(relativePath));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    suiteSetup(() => {
+        root = vscode.workspace.workspaceFolders![0].uri;
+    });
+
+    setup(async () => {
+        await vscode.workspace.fs.delete(fileUri('transaction'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+        await vscode.workspace.fs.createDirectory(fileUri('transaction'));
+    });
+
+    suiteTeardown(async () => {
+        await vscode.workspace.fs.delete(fileUri('transaction'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+    });
+
+    test('removes the directories it created for new files when reverted', async () => {
+        const transaction = new PatchTransaction('new files');
+        await transaction.commit([create('transaction/a/b/one.ts'), create('transaction/a/b/two.ts'), create('transaction/a/c/three.ts')]);
+        assert.ok(await exists('transaction/a/b/two.ts'));
+
+        await transaction.revert();
+        assert.ok(!await exists('transaction/a'));
+        assert.ok(await exists('transaction'));
+    });
+
+    test('keeps created directories that other files were added to', async () => {
+        const transaction = new PatchTransaction('new file');
+        await transaction.commit([create('transaction/a/one.ts')]);
+        await vscode.workspace.fs.writeFile(fileUri('transaction/a/other.ts'), new TextEncoder().encode('other\n'));
+
+        await transaction.revert();
+        assert.ok(!await exists('transaction/a/one.ts'));
+        assert.ok(await exists('transaction/a/other.ts'));
+    });
+
+    test('tells the files edited since the commit from those left as written', async () => {
+        const transaction = new PatchTransaction('new files');
+        await transaction.commit([create('transaction/edited.ts'), create('transaction/untouched.ts')]);
+        assert.deepStrictEqual(await transaction.changedSinceCommit(), []);
+
+        await vscode.workspace.fs.writeFile(fileUri('transaction/edited.ts'), new TextEncoder().encode('edited\n'));
+        assert.deepStrictEqual((await transaction.changedSinceCommit()).map(uri => uri.toString()), [fileUri('transaction/edited.ts').toString()]);
+
+        await transaction.updateWrittenContent();
+        assert.deepStrictEqual(await transaction.changedSinceCommit(), []);
+    });
+
+    test('recognizes file-not-found errors of both file system APIs', () => {
+        assert.ok(isFileNotFoundError(vscode.FileSystemError.FileNotFound()));
+        assert.ok(isFileNotFoundError(Object.assign(new Error('missing'), { code: 'ENOENT' })));
+        assert.ok(!isFileNotFoundError(new Error('denied')));
+        assert.ok(!isFileNotFoundError('FileNotFound'));
+        assert.ok(!isFileNotFoundError(undefined));
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PlannedFileChange } from '../PatchTransaction';
+import { PatchValidator } from '../PatchValidator';
+
+/**
+ * Stands in for a language server with a diagnostic collection that reports
+ * the errors of `errors` for a file once it is opened.
+ */
+suite('PatchValidator', () => {
+    let root: vscode.Uri;
+    let collection: vscode.DiagnosticCollection;
+    let listener: vscode.Disposable;
+    const errors = new Map<string, string[]>();
+    const validator = new PatchValidator();
+
+    function fileUri(relativePath: string): vscode.Uri {
+        return vscode.Uri.joinPath(root, relativePath);
+    }
+
+    function report(uri: vscode.Uri) {
+        const messages = errors.get(uri.toString()) ?? [];
+        collection.set(uri, messages.map(message => new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), message, vscode.DiagnosticSeverity.Error)));
+    }
+
+    async function modify(relativePath: string, content: string): Promise<PlannedFileChange> {
+        const uri = fileUri(relativePath);
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode('broken\n'));
+        return { uri, kind: 'modify', displayFileName: relativePath, newContent: content };
+    }
+
+    suiteSetup(async () => {
+        root = vscode.workspace.workspaceFolders![0].uri;
+        collection = vscode.languages.createDiagnosticCollection('patch-validator-test');
+        listener = vscode.workspace.onDidOpenTextDocument(document => report(document.uri));
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('checkDiagnosticsAfterApply', true, vscode.ConfigurationTarget.Workspace);
+    });
+
+    suiteTeardown(async () => {
+        listener.dispose();
+        collection.dispose();
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('checkDiagnosticsAfterApply', undefined, vscode.ConfigurationTarget.Workspace);
+        await vscode.workspace.fs.delete(fileUri('validator'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+    });
+
+    setup(() => {
+        errors.clear();
+    });
+
+    teardown(async () => {
+        await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    });
+
+    test('does not count the errors a closed file already had as new', async () => {
+        const change = await modify('validator/closed.txt', 'still broken\n');
+        errors.set(change.uri.toString(), ['Old error.']);
+
+        const before = await validator.snapshotDiagnostics([change]);
+        await vscode.workspace.fs.writeFile(change.uri, new TextEncoder().encode(change.newContent!));
+        const validation = await validator.validate([change], before);
+        assert.strictEqual(validation?.passed, true, validation?.steps.map(step => step.details).join('\n'));
+    });
+
+    test('reports errors the patch introduced', async () => {
+        const change = await modify('validator/introduced.txt', 'more broken\n');
+        errors.set(change.uri.toString(), ['Old error.']);
+
+        const before = await validator.snapshotDiagnostics([change]);
+        errors.set(change.uri.toString(), ['Old error.', 'New error.']);
+        report(change.uri);
+        const validation = await validator.validate([change], before);
+        assert.strictEqual(validation?.passed, false);
+        assert.match(validation?.steps[0].details ?? '', /New error/);
+    });
+});
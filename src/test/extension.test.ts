@@ -1,15 +1,130 @@
 import * as assert from 'assert';
-
-// You can import and use all API from the 'vscode' module
-// as well as import your extension to test it
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import { PatchApplyResult } from '../PatchApplyViewProvider';
+
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures');
+
+function fixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
 
+const GREETING = "export function greet(name: string) {\n    return 'Hello ' + name;\n}\n";
+const PATCHED_GREETING = 'export function greet(name: string) {\n    return `Hello, ${name}!`;\n}\n';
+const MATH = 'export function add(a: number, b: number) {\n    return a + b;\n}\n';
+
+/**
+ * Drives the registered commands against the `test-workspace` folder that
+ * `.vscode-test.mjs` opens, in non-interactive mode so that nothing waits for
+ * an answer.
+ */
 suite('Extension Test Suite', () => {
-	vscode.window.showInformationMessage('Start all tests.');
+    let root: vscode.Uri;
+
+    function fileUri(relativePath: string): vscode.Uri {
+        return vscode.Uri.joinPath(root, relativePath);
+    }
+
+    async function writeFile(relativePath: string, content: string) {
+        await vscode.workspace.fs.writeFile(fileUri(relativePath), new TextEncoder().encode(content));
+    }
+
+    async function readFile(relativePath: string): Promise<string | undefined> {
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri(relativePath)));
+        } catch {
+            return undefined;
+        }
+    }
+
+    function applyDiff(diffText: string): Thenable<PatchApplyResult> {
+        return vscode.commands.executeCommand<PatchApplyResult>('vscodepatchapply.applyDiff', diffText);
+    }
+
+    suiteSetup(async () => {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        assert.ok(folder, 'The tests need a workspace folder, see .vscode-test.mjs.');
+        root = folder.uri;
+        await vscode.extensions.getExtension('sc20ka.vscodepatchapply')?.activate();
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('nonInteractive', true, vscode.ConfigurationTarget.Workspace);
+    });
+
+    suiteTeardown(async () => {
+        await vscode.workspace.getConfiguration('vscodepatchapply').update('nonInteractive', undefined, vscode.ConfigurationTarget.Workspace);
+        for (const relativePath of ['src', 'changes']) {
+            await vscode.workspace.fs.delete(fileUri(relativePath), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+        }
+    });
+
+    setup(async () => {
+        await vscode.workspace.fs.delete(fileUri('src'), { recursive: true, useTrash: false }).then(undefined, () => undefined);
+        await writeFile('src/greeting.ts', GREETING);
+        await writeFile('src/math.ts', MATH);
+        await writeFile('src/removed.ts', 'export const removed = true;\nexport const count = 1;\n');
+    });
+
+    teardown(async () => {
+        await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    });
+
+    test('applyDiff applies every file of a multi-file diff', async () => {
+        const result = await applyDiff(fixture('multi-file.patch'));
+        assert.strictEqual(result.error, undefined);
+        assert.deepStrictEqual(result.applied.map(file => file.path).sort(), ['src/greeting.ts', 'src/math.ts']);
+        assert.strictEqual(await readFile('src/greeting.ts'), PATCHED_GREETING);
+        assert.ok((await readFile('src/math.ts'))?.includes('export function subtract'));
+    });
+
+    test('applyDiff creates and deletes files', async () => {
+        const result = await applyDiff(fixture('new-and-deleted.patch'));
+        assert.deepStrictEqual(result.applied.map(file => file.operation), ['create', 'delete']);
+        assert.strictEqual(await readFile('src/added.ts'), 'export const added = true;\nexport const count = 2;\n');
+        assert.strictEqual(await readFile('src/removed.ts'), undefined);
+    });
+
+    test('applyDiff takes the diff out of a chat answer', async () => {
+        const result = await applyDiff(fixture('fenced.md'));
+        assert.strictEqual(result.applied.length, 1);
+        assert.strictEqual(await readFile('src/greeting.ts'), PATCHED_GREETING);
+    });
+
+    test('applyDiff keeps CRLF line endings', async () => {
+        await writeFile('src/greeting.ts', GREETING.replace(/\n/g, '\r\n'));
+        await applyDiff(fixture('multi-file.patch'));
+        assert.strictEqual(await readFile('src/greeting.ts'), PATCHED_GREETING.replace(/\n/g, '\r\n'));
+    });
+
+    test('applyDiff changes nothing when one file of the diff does not apply', async () => {
+        await writeFile('src/math.ts', 'export const unrelated = true;\n');
+        const result = await applyDiff(fixture('multi-file.patch'));
+        assert.strictEqual(result.applied.length, 0);
+        assert.deepStrictEqual(result.failed.map(file => file.path), ['src/math.ts']);
+        assert.strictEqual(await readFile('src/greeting.ts'), GREETING);
+    });
+
+    test('applyDiff skips files that are not in the workspace', async () => {
+        const result = await applyDiff(fixture('multi-file.patch').replace(/src\/math\.ts/g, 'lib/missing.ts'));
+        assert.deepStrictEqual(result.applied.map(file => file.path), ['src/greeting.ts']);
+        assert.strictEqual(result.skipped.length, 1);
+    });
+
+    test('applyDiff refuses to write protected files without asking', async () => {
+        const result = await applyDiff('--- /dev/null\n+++ b/.env\n@@ -0,0 +1 @@\n+SECRET=1\n');
+        assert.match(result.error ?? '', /safety policy/);
+        assert.strictEqual(await readFile('.env'), undefined);
+    });
+
+    test('applyDiff reports input that does not parse', async () => {
+        const result = await applyDiff('This is not a diff.');
+        assert.ok(result.error);
+        assert.strictEqual(result.applied.length, 0);
+    });
 
-	test('Sample test', () => {
-		assert.strictEqual(-1, [1, 2, 3].indexOf(5));
-		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
-	});
+    test('applyPatchFile applies a patch file from the workspace', async () => {
+        await writeFile('changes/greeting.patch', fixture('malformed-header.patch'));
+        const result = await vscode.commands.executeCommand<PatchApplyResult>('vscodepatchapply.applyPatchFile', fileUri('changes/greeting.patch'));
+        assert.strictEqual(result.applied.length, 1);
+        assert.strictEqual(await readFile('src/greeting.ts'), PATCHED_GREETING);
+    });
 });